@@ -0,0 +1,102 @@
+/**
+ * Access‑token cache used by the HTTP transport: a static token, or one
+ * fetched from an {@link AccessTokenProvider} and refreshed ahead of expiry.
+ *
+ * @module access-token
+ * @internal
+ */
+
+import type { WhatsAppError } from './errors';
+import type { AccessTokenProvider, TokenRefreshedEvent } from './types';
+
+/** Default margin before `expiresAt` at which a provided token is refreshed. */
+const DEFAULT_REFRESH_MARGIN_MS = 5 * 60_000;
+
+/** @internal */
+export interface AccessTokenManagerOptions {
+  /** @default 300_000 */
+  refreshMarginMs?: number;
+  /** Called after the provider returned a new token. */
+  onRefreshed?: (event: TokenRefreshedEvent) => void;
+  /** Called when Graph rejected the token and no fresher one can help. */
+  onInvalid?: (err: WhatsAppError) => void;
+}
+
+/**
+ * Hands out the current access token. Concurrent callers share a single
+ * in‑flight provider call.
+ *
+ * @internal
+ */
+export class AccessTokenManager {
+  private readonly provider?: AccessTokenProvider;
+  private readonly refreshMarginMs: number;
+  private readonly opts: AccessTokenManagerOptions;
+  private token?: string;
+  private expiresAt?: number;
+  private pending?: Promise<string>;
+
+  constructor(source: string | AccessTokenProvider, opts: AccessTokenManagerOptions = {}) {
+    if (typeof source === 'string') {
+      this.token = source;
+    } else {
+      this.provider = source;
+    }
+    this.refreshMarginMs = opts.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+    this.opts = opts;
+  }
+
+  /** Current token, fetching or refreshing it first when needed. */
+  async get(): Promise<string> {
+    if (!this.provider) return this.token as string;
+    if (this.token === undefined) return this.refresh('initial');
+    if (this.expiresAt !== undefined && Date.now() >= this.expiresAt - this.refreshMarginMs) {
+      try {
+        return await this.refresh('expiring');
+      } catch (err: unknown) {
+        // Keep using the cached token until it actually expires.
+        if (Date.now() < this.expiresAt) return this.token;
+        throw err;
+      }
+    }
+    return this.token;
+  }
+
+  /**
+   * Handle a 190 response for `rejected`. Returns a fresh token to retry
+   * with, or `undefined` when none is available (the rejection is reported).
+   */
+  async replace(rejected: string, err: WhatsAppError): Promise<string | undefined> {
+    if (!this.provider) {
+      this.opts.onInvalid?.(err);
+      return undefined;
+    }
+    // Another request may already have replaced it.
+    if (this.token !== undefined && this.token !== rejected && !this.pending) return this.token;
+    return this.refresh('rejected');
+  }
+
+  /** Report that a token obtained from {@link replace} was rejected as well. */
+  reject(err: WhatsAppError): void {
+    this.token = undefined;
+    this.expiresAt = undefined;
+    this.opts.onInvalid?.(err);
+  }
+
+  private refresh(reason: TokenRefreshedEvent['reason']): Promise<string> {
+    // Start the provider on a later tick so a synchronous throw still reaches `finally`.
+    this.pending ??= Promise.resolve()
+      .then(() => (this.provider as AccessTokenProvider)())
+      .then((result) => {
+        const info = typeof result === 'string' ? { token: result } : result;
+        this.token = info.token;
+        this.expiresAt = info.expiresAt instanceof Date ? info.expiresAt.getTime() : info.expiresAt;
+        this.opts.onRefreshed?.({ reason, expiresAt: this.expiresAt });
+        return info.token;
+      })
+      .finally(() => {
+        this.pending = undefined;
+      });
+    return this.pending;
+  }
+}
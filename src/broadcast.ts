@@ -0,0 +1,368 @@
+/**
+ * Bulk sending: one message per recipient with bounded concurrency,
+ * progress events, pause / resume / cancel and a resumable checkpoint.
+ *
+ * @module broadcast
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+
+import { normalizeRecipient } from './client';
+import { RateLimitError, WhatsAppError } from './errors';
+import type { SendResponse } from './types';
+
+/** Builds and sends the message for one recipient, e.g. `(to) => client.sendTemplate(to, 'promo', opts)`. */
+export type BroadcastMessageFactory = (recipient: string, index: number) => Promise<SendResponse>;
+
+/** Options for `client.broadcast()`. */
+export interface BroadcastOptions {
+  /** Sends in flight at once. @default 10 */
+  concurrency?: number;
+  /**
+   * JSON‑lines file recording every result. When it exists, recipients it
+   * lists as sent or as failed for good are skipped, so a crashed or
+   * cancelled run can be resumed by starting it again with the same path.
+   * Recipients that failed with a retryable error are attempted again.
+   *
+   * Resuming is at‑least‑once: a result is written after its send returns,
+   * so a crash in between sends to that recipient again. When the file
+   * cannot be read or written, the run stops: the error is emitted as
+   * `error` and `done` resolves with `cancelled: true`.
+   */
+  checkpointPath?: string;
+  /** Attempts per recipient when Graph answers with a rate limit. @default 3 */
+  maxAttempts?: number;
+  /** Pause after a rate limit error without a Retry‑After header. @default 30_000 */
+  rateLimitBackoffMs?: number;
+}
+
+/** Serialisable summary of a failed send. */
+export interface BroadcastError {
+  /** Error class, e.g. `"RecipientNotOnWhatsAppError"`. */
+  name: string;
+  message: string;
+  /** Graph error code, if any. */
+  code?: number;
+  /** `true` when sending again later may succeed. */
+  isRetryable: boolean;
+}
+
+/** Outcome for one recipient. */
+export interface BroadcastResult {
+  recipient: string;
+  /** Position of the recipient in the input. */
+  index: number;
+  status: 'sent' | 'failed';
+  /** Message ID, when sent. */
+  wamid?: string;
+  /** Why the send failed, when failed. */
+  error?: BroadcastError;
+  /** Send attempts made. */
+  attempts: number;
+  /** `true` when the result was read from the checkpoint rather than sent in this run. */
+  resumed?: boolean;
+}
+
+/** Payload of the `progress` event. */
+export interface BroadcastProgress {
+  /** Distinct recipients in the run. */
+  total: number;
+  sent: number;
+  failed: number;
+  /** Recipients not finished yet (queued or in flight). */
+  remaining: number;
+}
+
+/** What `Broadcast.done` resolves with. */
+export interface BroadcastReport extends BroadcastProgress {
+  /** `true` when the run was cancelled, or stopped by a checkpoint error, before every recipient was attempted. */
+  cancelled: boolean;
+  /** One result per finished recipient, in input order. */
+  results: BroadcastResult[];
+}
+
+/** Events emitted by {@link Broadcast}. */
+export interface BroadcastEvents {
+  result: (result: BroadcastResult) => void;
+  progress: (progress: BroadcastProgress) => void;
+  /** Sending is held back until the given time (epoch ms) after a rate limit error. */
+  'rate-limited': (event: { recipient: string; until: number; error: WhatsAppError }) => void;
+  /** The checkpoint file could not be read or written; the run stops. */
+  error: (error: Error) => void;
+  done: (report: BroadcastReport) => void;
+}
+
+interface QueueItem {
+  recipient: string;
+  index: number;
+  attempts: number;
+}
+
+/**
+ * A running broadcast, returned by `client.broadcast()`. Sends go through
+ * the client, so its `rateLimit` and `outbox` settings apply to each one.
+ *
+ * @example
+ * ```ts
+ * const run = client.broadcast(customers, (to) => client.sendTemplate(to, 'spring_sale', { language: 'en_US' }), {
+ *   concurrency: 20,
+ *   checkpointPath: './data/spring-sale.jsonl',
+ * });
+ * run.on('progress', ({ sent, failed, total }) => console.log(`${sent + failed}/${total}`));
+ * const report = await run.done;
+ * ```
+ */
+export class Broadcast {
+  /** Resolves once every recipient was attempted or the run was cancelled. */
+  readonly done: Promise<BroadcastReport>;
+  private readonly emitter = new EventEmitter();
+  private readonly factory: BroadcastMessageFactory;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly rateLimitBackoffMs: number;
+  private readonly checkpoint?: CheckpointFile;
+  private readonly results: BroadcastResult[] = [];
+  private state: 'running' | 'paused' | 'cancelled' | 'finished' = 'running';
+  /** Time (epoch ms) before which no new send starts. */
+  private holdUntil = 0;
+  private total = 0;
+  private sent = 0;
+  private failed = 0;
+  /** Set when the checkpoint failed and the run was stopped. */
+  private stopped = false;
+  /** Workers waiting for {@link resume}, {@link cancel} or the end of a hold. */
+  private waiters: Array<() => void> = [];
+
+  /** @internal */
+  constructor(recipients: Iterable<string>, factory: BroadcastMessageFactory, opts: BroadcastOptions = {}) {
+    this.factory = factory;
+    this.concurrency = Math.max(1, opts.concurrency ?? 10);
+    this.maxAttempts = opts.maxAttempts ?? 3;
+    this.rateLimitBackoffMs = opts.rateLimitBackoffMs ?? 30_000;
+    if (opts.checkpointPath) this.checkpoint = new CheckpointFile(opts.checkpointPath);
+    this.done = this.run(Array.from(recipients));
+  }
+
+  /** Register an event listener. */
+  on<K extends keyof BroadcastEvents>(event: K, listener: BroadcastEvents[K]): this {
+    this.emitter.on(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /** Remove an event listener. */
+  off<K extends keyof BroadcastEvents>(event: K, listener: BroadcastEvents[K]): this {
+    this.emitter.off(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /** Stop starting new sends. Sends already in flight complete. */
+  pause(): void {
+    if (this.state === 'running') this.state = 'paused';
+  }
+
+  /** Continue a paused run. */
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.state = 'running';
+    this.wake();
+  }
+
+  /**
+   * End the run once the sends in flight complete. Recipients not attempted
+   * yet are left out of the report (and the checkpoint).
+   */
+  cancel(): void {
+    if (this.state === 'finished' || this.state === 'cancelled') return;
+    this.state = 'cancelled';
+    this.wake();
+  }
+
+  /** `true` while the run is paused. */
+  get paused(): boolean {
+    return this.state === 'paused';
+  }
+
+  /** Current counts. */
+  progress(): BroadcastProgress {
+    return {
+      total: this.total,
+      sent: this.sent,
+      failed: this.failed,
+      remaining: this.total - this.sent - this.failed,
+    };
+  }
+
+  private async run(recipients: string[]): Promise<BroadcastReport> {
+    const queue: QueueItem[] = [];
+    let previous = new Map<string, BroadcastResult>();
+    try {
+      previous = (await this.checkpoint?.load()) ?? previous;
+    } catch (err: unknown) {
+      this.stop(err);
+    }
+
+    const seen = new Set<string>();
+    recipients.forEach((recipient, index) => {
+      const key = recipientKey(recipient);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const earlier = previous.get(key);
+      if (earlier && (earlier.status === 'sent' || !earlier.error?.isRetryable)) {
+        this.record({ ...earlier, recipient, index, resumed: true });
+      } else {
+        queue.push({ recipient, index, attempts: 0 });
+      }
+    });
+    this.total = seen.size;
+
+    const workers = Array.from({ length: Math.min(this.concurrency, queue.length) }, () => this.work(queue));
+    await Promise.all(workers);
+
+    const cancelled = this.stopped || (this.state === 'cancelled' && queue.length > 0);
+    this.state = 'finished';
+    const report: BroadcastReport = {
+      ...this.progress(),
+      cancelled,
+      results: [...this.results].sort((a, b) => a.index - b.index),
+    };
+    this.emitter.emit('done', report);
+    return report;
+  }
+
+  private async work(queue: QueueItem[]): Promise<void> {
+    for (;;) {
+      await this.gate();
+      if (this.state === 'cancelled') return;
+      const item = queue.shift();
+      if (!item) return;
+
+      item.attempts++;
+      let result: BroadcastResult;
+      try {
+        const { wamid } = await this.factory(item.recipient, item.index);
+        result = { recipient: item.recipient, index: item.index, status: 'sent', wamid, attempts: item.attempts };
+      } catch (err: unknown) {
+        if (err instanceof RateLimitError && item.attempts < this.maxAttempts) {
+          // Hold every worker back, then try this recipient first.
+          const until = Date.now() + (err.retryAfter ? err.retryAfter * 1_000 : this.rateLimitBackoffMs);
+          this.holdUntil = Math.max(this.holdUntil, until);
+          queue.unshift(item);
+          this.emitter.emit('rate-limited', { recipient: item.recipient, until, error: err });
+          continue;
+        }
+        result = {
+          recipient: item.recipient,
+          index: item.index,
+          status: 'failed',
+          error: describeError(err),
+          attempts: item.attempts,
+        };
+      }
+      try {
+        await this.checkpoint?.append(result);
+      } catch (err: unknown) {
+        // Without a checkpoint a restart would send again — stop the run.
+        this.stop(err);
+      }
+      this.record(result);
+      this.emitter.emit('result', result);
+      this.emitter.emit('progress', this.progress());
+    }
+  }
+
+  /** End the run after a checkpoint failure. */
+  private stop(err: unknown): void {
+    this.stopped = true;
+    this.cancel();
+    if (this.emitter.listenerCount('error') > 0) {
+      this.emitter.emit('error', err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  private record(result: BroadcastResult): void {
+    this.results.push(result);
+    if (result.status === 'sent') this.sent++;
+    else this.failed++;
+  }
+
+  /** Wait while the run is paused or held back after a rate limit. */
+  private async gate(): Promise<void> {
+    for (;;) {
+      if (this.state === 'paused') {
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+        continue;
+      }
+      const wait = this.holdUntil - Date.now();
+      if (this.state !== 'running' || wait <= 0) return;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, wait);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  private wake(): void {
+    for (const waiter of this.waiters.splice(0)) waiter();
+  }
+}
+
+/**
+ * Key recipients are matched by: the `wa_id` for phone numbers, so `+1 555…`
+ * and `1555…` are one recipient, and anything else as given.
+ */
+function recipientKey(recipient: string): string {
+  return /^\+?[\d\s().-]+$/.test(recipient) ? normalizeRecipient(recipient) : recipient;
+}
+
+function describeError(err: unknown): BroadcastError {
+  if (err instanceof WhatsAppError) {
+    return { name: err.name, message: err.message, code: err.code, isRetryable: err.isRetryable };
+  }
+  if (err instanceof Error) return { name: err.name, message: err.message, isRetryable: false };
+  return { name: 'Error', message: String(err), isRetryable: false };
+}
+
+/** Append‑only JSON‑lines record of finished recipients. */
+class CheckpointFile {
+  private readonly filePath: string;
+  /** Serialises appends so lines never interleave. */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<Map<string, BroadcastResult>> {
+    const results = new Map<string, BroadcastResult>();
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      return results;
+    }
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const result = JSON.parse(line) as BroadcastResult;
+        results.set(recipientKey(result.recipient), result);
+      } catch {
+        // A line cut short by a crash — that recipient is attempted again.
+      }
+    }
+    return results;
+  }
+
+  append(result: BroadcastResult): Promise<void> {
+    const line = JSON.stringify({ ...result, resumed: undefined }) + '\n';
+    const write = this.queue.then(() => fs.promises.appendFile(this.filePath, line, 'utf-8'));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
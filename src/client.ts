@@ -8,9 +8,25 @@
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
 
+import { AccessTokenManager } from './access-token';
+import { Broadcast, type BroadcastMessageFactory, type BroadcastOptions } from './broadcast';
 import { WhatsAppError, StorageNotConfiguredError } from './errors';
+import { buildFlowMessage } from './flow-message';
+import { FlowsApi } from './flows';
 import { createHttpClient, type HttpClient } from './http';
-import { parseIncoming, parseStatuses } from './parse-incoming';
+import { buildOrderDetails, buildOrderStatus } from './orders';
+import { Outbox } from './outbox';
+import {
+  parseAccountEvents,
+  parseIncoming,
+  parsePaymentStatuses,
+  parseStatuses,
+  parseTemplateEvents,
+} from './parse-incoming';
+import { PhoneNumbersApi } from './phone-numbers';
+import { RateLimiter } from './rate-limiter';
+import { TemplatePreflight } from './template-preflight';
+import { TemplatesApi } from './templates';
 import type {
   WhatsAppClientConfig,
   SendResponse,
@@ -23,16 +39,38 @@ import type {
   SendStickerOptions,
   Location,
   SendTemplateOptions,
+  SendOtpOptions,
   Contact,
   Interactive,
   SendInteractiveOptions,
+  OrderDetailsInput,
+  OrderStatusInput,
+  SendFlowInput,
+  AutoReadOptions,
+  InboundMessage,
+  BusinessProfile,
+  BusinessProfileField,
+  UpdateBusinessProfileInput,
   UploadMediaResult,
   MediaUrlResult,
   WebhookPayload,
   WhatsAppEvents,
 } from './types';
+import { UploadsApi } from './uploads';
+import { validateInteractive } from './validate-interactive';
 
 const DEFAULT_API_VERSION = 'v21.0';
+const DEFAULT_TYPING_REFRESH_MS = 20_000;
+const BUSINESS_PROFILE_FIELDS: BusinessProfileField[] = [
+  'about',
+  'address',
+  'description',
+  'email',
+  'profile_picture_url',
+  'websites',
+  'vertical',
+];
+const DEFAULT_MAX_TYPING_MS = 120_000;
 
 /**
  * Instanciable WhatsApp Cloud API client.
@@ -52,9 +90,29 @@ const DEFAULT_API_VERSION = 'v21.0';
 export class WhatsAppClient {
   private readonly http: HttpClient;
   private readonly config: Required<Pick<WhatsAppClientConfig, 'accessToken' | 'phoneNumberId' | 'apiVersion'>> &
-    Pick<WhatsAppClientConfig, 'appSecret' | 'storage'>;
+    Pick<WhatsAppClientConfig, 'appSecret' | 'storage' | 'wabaId'>;
   private readonly emitter = new EventEmitter();
 
+  /** Message template management (requires `wabaId`). */
+  readonly templates: TemplatesApi;
+  /** WhatsApp Flows management (requires `wabaId`). */
+  readonly flows: FlowsApi;
+  /** Phone number onboarding and status (listing requires `wabaId`). */
+  readonly phoneNumbers: PhoneNumbersApi;
+  /** Resumable upload sessions for file handles (requires `appId`). */
+  readonly uploads: UploadsApi;
+  /** Outbound send queue; set when `rateLimit` is configured. */
+  readonly rateLimiter?: RateLimiter;
+  /** Durable send queue; set when `outbox` is configured. */
+  readonly outbox?: Outbox;
+  /** `false` when the limiter was passed in the config and may be shared. */
+  private readonly ownsRateLimiter: boolean;
+  private readonly preflight: TemplatePreflight;
+  private readonly preflightByDefault: boolean;
+  private readonly autoRead?: Required<AutoReadOptions>;
+  /** Active typing indicators by recipient `wa_id`; each entry stops one refresh loop. */
+  private readonly typingSessions = new Map<string, Set<() => void>>();
+
   constructor(cfg: WhatsAppClientConfig) {
     this.config = {
       accessToken: cfg.accessToken,
@@ -62,8 +120,46 @@ export class WhatsAppClient {
       apiVersion: cfg.apiVersion ?? DEFAULT_API_VERSION,
       appSecret: cfg.appSecret,
       storage: cfg.storage,
+      wabaId: cfg.wabaId,
     };
-    this.http = createHttpClient(cfg.accessToken, cfg.http);
+    const tokens = new AccessTokenManager(cfg.accessToken, {
+      refreshMarginMs: cfg.tokenRefreshMarginMs,
+      onRefreshed: (event) => this.emitter.emit('token:refreshed', event),
+      onInvalid: (err) => this.emitter.emit('token:invalid', err),
+    });
+    this.http = createHttpClient(tokens, cfg.http);
+    this.templates = new TemplatesApi(this.http, this.baseUrl(), cfg.wabaId);
+    this.flows = new FlowsApi(this.http, this.baseUrl(), cfg.wabaId);
+    this.phoneNumbers = new PhoneNumbersApi(this.http, this.baseUrl(), cfg.wabaId);
+    this.uploads = new UploadsApi(this.http, this.baseUrl(), cfg.appId);
+    this.ownsRateLimiter = !(cfg.rateLimit instanceof RateLimiter);
+    if (cfg.rateLimit) {
+      this.rateLimiter = cfg.rateLimit instanceof RateLimiter
+        ? cfg.rateLimit
+        : new RateLimiter(typeof cfg.rateLimit === 'object' ? cfg.rateLimit : {});
+    }
+    if (cfg.outbox) {
+      this.outbox = new Outbox(cfg.outbox, (payload) => this.dispatch(payload), {
+        onSent: (entry) => this.emitter.emit('outbox:sent', entry),
+        onFailed: (entry, error) => this.emitter.emit('outbox:failed', { entry, error }),
+        // Store failures are retried on the next poll.
+        onError: (err) => this.reportBackgroundError(err),
+      });
+      this.outbox.start();
+    }
+    this.preflight = new TemplatePreflight(
+      this.templates,
+      typeof cfg.templatePreflight === 'object' ? cfg.templatePreflight.cacheTtlMs : undefined,
+    );
+    this.preflightByDefault = Boolean(cfg.templatePreflight);
+    if (cfg.autoRead) {
+      const opts = typeof cfg.autoRead === 'object' ? cfg.autoRead : {};
+      this.autoRead = {
+        typing: opts.typing ?? true,
+        typingRefreshMs: opts.typingRefreshMs ?? DEFAULT_TYPING_REFRESH_MS,
+        maxTypingMs: opts.maxTypingMs ?? DEFAULT_MAX_TYPING_MS,
+      };
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -103,6 +199,18 @@ export class WhatsAppClient {
     return this;
   }
 
+  /**
+   * Stop the client's background work: the outbox poller, typing indicator
+   * refreshes and the rate limiter, whose queued sends reject with
+   * `SendCancelledError`. A `RateLimiter` passed in the config may be shared
+   * and is left running. Pending outbox entries stay in the store.
+   */
+  close(): void {
+    this.outbox?.stop();
+    if (this.ownsRateLimiter) this.rateLimiter?.close();
+    for (const recipient of Array.from(this.typingSessions.keys())) this.stopTyping(recipient);
+  }
+
   // -----------------------------------------------------------------------
   // URL helpers
   // -----------------------------------------------------------------------
@@ -115,6 +223,10 @@ export class WhatsAppClient {
     return `${this.baseUrl()}/${this.config.phoneNumberId}/messages`;
   }
 
+  private businessProfileUrl(): string {
+    return `${this.baseUrl()}/${this.config.phoneNumberId}/whatsapp_business_profile`;
+  }
+
   private mediaUploadUrl(): string {
     return `${this.baseUrl()}/${this.config.phoneNumberId}/media`;
   }
@@ -124,6 +236,19 @@ export class WhatsAppClient {
   // -----------------------------------------------------------------------
 
   private async send(payload: Record<string, unknown>): Promise<SendResponse> {
+    if (this.outbox) return this.outbox.enqueue(payload);
+    return this.dispatch(payload);
+  }
+
+  private async dispatch(payload: Record<string, unknown>): Promise<SendResponse> {
+    if (!this.rateLimiter) return this.post(payload);
+    const recipient = normalizeRecipient(String(payload.to ?? ''));
+    return this.rateLimiter.schedule(this.config.phoneNumberId, recipient, () => this.post(payload));
+  }
+
+  private async post(payload: Record<string, unknown>): Promise<SendResponse> {
+    // WhatsApp clears the indicator on reply — stop refreshing it.
+    this.stopTyping(String(payload.to ?? ''));
     const res = await this.http.request<{ messages: Array<{ id: string }> }>(
       this.messagesUrl(),
       {
@@ -292,9 +417,13 @@ export class WhatsAppClient {
    *
    * @param to - Recipient phone number.
    * @param templateName - Name of the approved template.
-   * @param opts - Language code and component parameters.
+   * @param opts - Language code, component parameters and optional preflight.
+   * @throws {TemplateValidationError} if preflight is enabled and the components do not match the template.
    */
   async sendTemplate(to: string, templateName: string, opts?: SendTemplateOptions): Promise<SendResponse> {
+    if (opts?.preflight ?? this.preflightByDefault) {
+      await this.preflight.check(templateName, opts?.language ?? 'en_US', opts?.components ?? []);
+    }
     return this.send({
       messaging_product: 'whatsapp',
       to,
@@ -308,6 +437,44 @@ export class WhatsAppClient {
     });
   }
 
+  /**
+   * Send a one‑time password through an authentication template.
+   *
+   * Copy‑code, one‑tap and zero‑tap authentication templates all take the
+   * same send payload — the code as the body parameter and again as the `url`
+   * parameter of the OTP button — so this works for every variant.
+   *
+   * @param to - Recipient phone number.
+   * @param templateName - Name of the approved authentication template.
+   * @param code - The one‑time password (see {@link OtpManager} for generating one).
+   * @param opts - Language, OTP button index and preflight.
+   */
+  async sendOtp(to: string, templateName: string, code: string, opts?: SendOtpOptions): Promise<SendResponse> {
+    return this.sendTemplate(to, templateName, {
+      language: opts?.language,
+      preflight: opts?.preflight,
+      components: [
+        { type: 'body', parameters: [{ type: 'text', text: code }] },
+        {
+          type: 'button',
+          sub_type: 'url',
+          index: String(opts?.buttonIndex ?? 0),
+          parameters: [{ type: 'text', text: code }],
+        },
+      ],
+    });
+  }
+
+  /**
+   * Forget cached template definitions used by preflight validation, e.g.
+   * after editing a template.
+   *
+   * @param templateName - Clear only this template (all languages).
+   */
+  clearTemplateCache(templateName?: string): void {
+    this.preflight.clear(templateName);
+  }
+
   /**
    * Send (or remove) a reaction to a message.
    *
@@ -340,13 +507,15 @@ export class WhatsAppClient {
   }
 
   /**
-   * Send an interactive message (buttons, lists, flows, CTA URLs).
+   * Send an interactive message (buttons, lists, flows, CTA URLs, products, catalog).
    *
    * @param to - Recipient phone number.
    * @param interactive - The interactive message payload.
    * @param opts - Optional reply‑to.
+   * @throws {InteractiveValidationError} if a product or catalog message breaks a Cloud API rule.
    */
   async sendInteractive(to: string, interactive: Interactive, opts?: SendInteractiveOptions): Promise<SendResponse> {
+    validateInteractive(interactive);
     return this.send({
       messaging_product: 'whatsapp',
       to,
@@ -356,6 +525,57 @@ export class WhatsAppClient {
     });
   }
 
+  /**
+   * Send a WhatsApp Flow.
+   *
+   * @param to - Recipient phone number.
+   * @param flow - Flow id or name, CTA, token, mode and the first screen (or `action: 'data_exchange'`).
+   * @param opts - Optional reply‑to.
+   *
+   * @example
+   * ```ts
+   * await client.sendFlow(to, {
+   *   flowName: 'appointment_booking',
+   *   flowCta: 'Book now',
+   *   flowToken: `booking-${orderId}`,
+   *   body: 'Pick a time slot',
+   *   screen: 'SLOTS',
+   *   data: { date: '2026-03-01' },
+   * });
+   * ```
+   */
+  async sendFlow<TData extends Record<string, unknown>>(
+    to: string,
+    flow: SendFlowInput<TData>,
+    opts?: SendInteractiveOptions,
+  ): Promise<SendResponse> {
+    return this.sendInteractive(to, buildFlowMessage(flow), opts);
+  }
+
+  /**
+   * Send an `order_details` (review and pay) message. Subtotal and total are
+   * computed from the items, tax, shipping and discount.
+   *
+   * @param to - Recipient phone number.
+   * @param order - Order reference, payment configuration, items and amounts (minor units).
+   * @param opts - Optional reply‑to (e.g. the inbound `order` message).
+   */
+  async sendOrderDetails(to: string, order: OrderDetailsInput, opts?: SendInteractiveOptions): Promise<SendResponse> {
+    return this.sendInteractive(to, buildOrderDetails(order), opts);
+  }
+
+  /**
+   * Send an `order_status` update for an order previously sent with
+   * {@link sendOrderDetails}.
+   *
+   * @param to - Recipient phone number.
+   * @param update - Order reference, new status and message text.
+   * @param opts - Optional reply‑to.
+   */
+  async sendOrderStatus(to: string, update: OrderStatusInput, opts?: SendInteractiveOptions): Promise<SendResponse> {
+    return this.sendInteractive(to, buildOrderStatus(update), opts);
+  }
+
   /**
    * Mark a message as read (sends the blue check marks).
    *
@@ -373,6 +593,41 @@ export class WhatsAppClient {
     });
   }
 
+  /**
+   * Mark a message as read and show a typing indicator to its sender.
+   *
+   * WhatsApp hides the indicator when you reply or after about 25 seconds.
+   *
+   * @param messageId - The wamid of the inbound message being answered.
+   */
+  async showTyping(messageId: string): Promise<void> {
+    await this.http.request(this.messagesUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        status: 'read',
+        message_id: messageId,
+        typing_indicator: { type: 'text' },
+      }),
+    });
+  }
+
+  /**
+   * Send one message to each recipient with bounded concurrency. Each send
+   * goes through this client, so `rateLimit` (recommended for large runs)
+   * and `outbox` apply; a rate limit error from Graph also holds the whole
+   * run back before the recipient is retried.
+   *
+   * @param recipients - Phone numbers / `wa_id`s; duplicates are sent to once.
+   * @param messageFactory - Sends the message for one recipient, e.g. `(to) => client.sendTemplate(to, 'promo')`.
+   * @param opts - Concurrency, checkpoint file and rate limit handling.
+   * @returns A running {@link Broadcast}; await `done` for the per‑recipient report.
+   */
+  broadcast(recipients: Iterable<string>, messageFactory: BroadcastMessageFactory, opts?: BroadcastOptions): Broadcast {
+    return new Broadcast(recipients, messageFactory, opts);
+  }
+
   // -----------------------------------------------------------------------
   // Media methods
   // -----------------------------------------------------------------------
@@ -441,6 +696,45 @@ export class WhatsAppClient {
     await this.http.request(url, { method: 'DELETE' });
   }
 
+  // -----------------------------------------------------------------------
+  // Business profile
+  // -----------------------------------------------------------------------
+
+  /**
+   * Read the business profile of this phone number.
+   *
+   * @param fields - Fields to return. @default every {@link BusinessProfileField}
+   */
+  async getBusinessProfile(fields: BusinessProfileField[] = BUSINESS_PROFILE_FIELDS): Promise<BusinessProfile> {
+    const res = await this.http.request<{ data?: BusinessProfile[] }>(
+      `${this.businessProfileUrl()}?fields=${fields.join(',')}`,
+      { method: 'GET' },
+    );
+    return res?.data?.[0] ?? {};
+  }
+
+  /**
+   * Update the business profile of this phone number.
+   *
+   * A `profile_picture` file is first uploaded with {@link uploads} (requires
+   * `appId`) and its handle sent as `profile_picture_handle`.
+   *
+   * @param patch - The fields to change.
+   */
+  async updateBusinessProfile(patch: UpdateBusinessProfileInput): Promise<void> {
+    const { profile_picture, ...fields } = patch;
+    if (profile_picture) {
+      const { handle } = await this.uploads.upload(profile_picture.file, { mimeType: profile_picture.mimeType });
+      fields.profile_picture_handle = handle;
+    }
+
+    await this.http.request(this.businessProfileUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messaging_product: 'whatsapp', ...fields }),
+    });
+  }
+
   // -----------------------------------------------------------------------
   // Storage shorthand
   // -----------------------------------------------------------------------
@@ -485,8 +779,8 @@ export class WhatsAppClient {
   }
 
   /**
-   * Process an incoming webhook: verify signature, parse messages and statuses,
-   * and emit typed events.
+   * Process an incoming webhook: verify signature, parse messages, statuses and
+   * payment updates, and emit typed events.
    *
    * @param input - The raw request data.
    * @param input.rawBody - Raw body (Buffer or string) for signature verification.
@@ -506,20 +800,116 @@ export class WhatsAppClient {
     try {
       const messages = parseIncoming(input.body);
       for (const msg of messages) {
-        this.emitter.emit('message', msg);
-        this.emitter.emit(`message:${msg.type}`, msg);
+        if (this.autoRead) {
+          this.dispatchWithReadReceipt(msg, this.autoRead);
+        } else {
+          this.emitter.emit('message', msg);
+          this.emitter.emit(`message:${msg.type}`, msg);
+        }
       }
 
       const statuses = parseStatuses(input.body);
       for (const status of statuses) {
         this.emitter.emit('status', status);
       }
+
+      const payments = parsePaymentStatuses(input.body);
+      for (const payment of payments) {
+        this.emitter.emit('payment', payment);
+        this.emitter.emit(`payment:${payment.status}`, payment);
+      }
+
+      const accountEvents = parseAccountEvents(input.body);
+      for (const event of accountEvents) {
+        this.emitter.emit('account', event);
+        this.emitter.emit(`account:${event.type}`, event);
+        if (event.type === 'quality' && (event.event === 'UPGRADE' || event.event === 'DOWNGRADE')) {
+          this.emitter.emit('account:limit', event);
+        }
+      }
+
+      const templateEvents = parseTemplateEvents(input.body);
+      for (const event of templateEvents) {
+        // Status and category changes invalidate the definition cached for preflight.
+        if (event.type !== 'quality') this.clearTemplateCache(event.templateName);
+        this.emitter.emit('template', event);
+        this.emitter.emit(`template:${event.type}`, event);
+      }
     } catch (err: unknown) {
       const wrapped = err instanceof Error ? err : new Error(String(err));
       this.emitter.emit('error', wrapped);
       throw wrapped;
     }
   }
+
+  /**
+   * Emit a message to its listeners, mark it as read and — when a listener
+   * returned a promise — keep a typing indicator up until they all settle.
+   */
+  private dispatchWithReadReceipt(msg: InboundMessage, opts: Required<AutoReadOptions>): void {
+    const pending: Promise<unknown>[] = [];
+    for (const event of ['message', `message:${msg.type}`]) {
+      for (const listener of this.emitter.rawListeners(event)) {
+        const result: unknown = (listener as (m: InboundMessage) => unknown).call(this.emitter, msg);
+        if (result instanceof Promise) pending.push(result);
+      }
+    }
+
+    const settled = Promise.allSettled(pending).then((results) => {
+      for (const result of results) {
+        if (result.status === 'rejected') this.reportBackgroundError(result.reason);
+      }
+    });
+
+    if (!opts.typing || pending.length === 0) {
+      this.markAsRead(msg.wamid).catch((err: unknown) => this.reportBackgroundError(err));
+      return;
+    }
+
+    const recipient = normalizeRecipient(msg.from);
+    const refresh = (): void => {
+      this.showTyping(msg.wamid).catch((err: unknown) => this.reportBackgroundError(err));
+    };
+    const timer = setInterval(refresh, opts.typingRefreshMs);
+    const deadline = setTimeout(() => stop(), opts.maxTypingMs);
+    timer.unref?.();
+    deadline.unref?.();
+
+    const sessions = this.typingSessions.get(recipient) ?? new Set<() => void>();
+    this.typingSessions.set(recipient, sessions);
+    const stop = (): void => {
+      clearInterval(timer);
+      clearTimeout(deadline);
+      sessions.delete(stop);
+      if (sessions.size === 0) this.typingSessions.delete(recipient);
+    };
+    sessions.add(stop);
+
+    refresh();
+    void settled.then(stop);
+  }
+
+  /** Stop refreshing every typing indicator shown to `to`. */
+  private stopTyping(to: string): void {
+    const sessions = this.typingSessions.get(normalizeRecipient(to));
+    if (sessions) for (const stop of Array.from(sessions)) stop();
+  }
+
+  /** Forward a failure from fire‑and‑forget work to `error` listeners, if any. */
+  private reportBackgroundError(err: unknown): void {
+    if (this.emitter.listenerCount('error') > 0) {
+      this.emitter.emit('error', err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+}
+
+/**
+ * Reduce a phone number to the digits WhatsApp uses as `wa_id`.
+ *
+ * @internal
+ */
+export function normalizeRecipient(phone: string): string {
+  return phone.replace(/\D/g, '');
 }
 
 // ---------------------------------------------------------------------------
@@ -3,9 +3,29 @@
  * @module errors
  */
 
+/** Fields parsed from a Graph API error envelope (`{ error: { … } }`). */
+export interface GraphErrorInfo {
+  /** Graph error code (e.g. `131047`, `190`). */
+  code?: number;
+  /** Graph `error_subcode`, if present. */
+  subcode?: number;
+  /** Graph error type (e.g. `"OAuthException"`). */
+  type?: string;
+  /** Human‑readable message returned by Graph. */
+  message?: string;
+  /** `error_data.details` — the most specific explanation Graph gives. */
+  errorDetails?: string;
+  /** `fbtrace_id` — quote this when contacting Meta support. */
+  fbtraceId?: string;
+}
+
+/** Graph error codes that are worth retrying later (rate limits and transient server errors). */
+const RETRYABLE_CODES = new Set([1, 2, 4, 80007, 130429, 131000, 131016, 131048, 131056, 133004]);
+
 /**
  * Error thrown when a WhatsApp Cloud API request fails.
- * Includes the HTTP status code, response details, and optional Retry‑After header.
+ * Includes the HTTP status code, response details, optional Retry‑After header
+ * and — when the API returned a Graph error envelope — its parsed fields.
  */
 export class WhatsAppError extends Error {
   /** HTTP status code (0 when unknown / network error). */
@@ -14,16 +34,132 @@ export class WhatsAppError extends Error {
   readonly details: unknown;
   /** Value of the Retry‑After header in seconds, if present. */
   readonly retryAfter?: number;
+  /** Graph error code, if present. */
+  readonly code?: number;
+  /** Graph error subcode, if present. */
+  readonly subcode?: number;
+  /** Graph error type (e.g. `"OAuthException"`), if present. */
+  readonly errorType?: string;
+  /** Graph `error_data.details`, if present. */
+  readonly errorDetails?: string;
+  /** Graph `fbtrace_id`, if present. */
+  readonly fbtraceId?: string;
+  /** `true` when retrying the same request later may succeed (rate limits, 5xx, {@link NetworkError}s). */
+  readonly isRetryable: boolean;
 
-  constructor(message: string, statusCode: number, details?: unknown, retryAfter?: number) {
+  constructor(
+    message: string,
+    statusCode: number,
+    details?: unknown,
+    retryAfter?: number,
+    graph?: GraphErrorInfo,
+  ) {
     super(message);
     this.name = 'WhatsAppError';
     this.statusCode = statusCode;
     this.details = details;
     this.retryAfter = retryAfter;
+    this.code = graph?.code;
+    this.subcode = graph?.subcode;
+    this.errorType = graph?.type;
+    this.errorDetails = graph?.errorDetails;
+    this.fbtraceId = graph?.fbtraceId;
+    this.isRetryable =
+      statusCode === 429 || statusCode >= 500 || (graph?.code !== undefined && RETRYABLE_CODES.has(graph.code));
   }
 }
 
+/**
+ * The request never got an answer — the connection failed or timed out
+ * (`statusCode` is 0). Always retryable.
+ */
+export class NetworkError extends WhatsAppError {
+  override readonly isRetryable = true;
+
+  constructor(message: string) {
+    super(message, 0);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The 24‑hour customer service window is closed — send a template instead (131047). */
+export class ReEngagementRequiredError extends WhatsAppError {
+  constructor(message: string, statusCode: number, details?: unknown, retryAfter?: number, graph?: GraphErrorInfo) {
+    super(message, statusCode, details, retryAfter, graph);
+    this.name = 'ReEngagementRequiredError';
+  }
+}
+
+/** The recipient is not a WhatsApp user or cannot receive the message (131026). */
+export class RecipientNotOnWhatsAppError extends WhatsAppError {
+  constructor(message: string, statusCode: number, details?: unknown, retryAfter?: number, graph?: GraphErrorInfo) {
+    super(message, statusCode, details, retryAfter, graph);
+    this.name = 'RecipientNotOnWhatsAppError';
+  }
+}
+
+/** Throughput, pair‑rate or spam rate limit hit (4, 80007, 130429, 131048, 131056). */
+export class RateLimitError extends WhatsAppError {
+  constructor(message: string, statusCode: number, details?: unknown, retryAfter?: number, graph?: GraphErrorInfo) {
+    super(message, statusCode, details, retryAfter, graph);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** The access token is expired, revoked or otherwise invalid (190). */
+export class AccessTokenExpiredError extends WhatsAppError {
+  constructor(message: string, statusCode: number, details?: unknown, retryAfter?: number, graph?: GraphErrorInfo) {
+    super(message, statusCode, details, retryAfter, graph);
+    this.name = 'AccessTokenExpiredError';
+  }
+}
+
+/** Template parameters do not match the approved template (132000, 132012). */
+export class TemplateParamMismatchError extends WhatsAppError {
+  constructor(message: string, statusCode: number, details?: unknown, retryAfter?: number, graph?: GraphErrorInfo) {
+    super(message, statusCode, details, retryAfter, graph);
+    this.name = 'TemplateParamMismatchError';
+  }
+}
+
+type WhatsAppErrorClass = new (
+  message: string,
+  statusCode: number,
+  details?: unknown,
+  retryAfter?: number,
+  graph?: GraphErrorInfo,
+) => WhatsAppError;
+
+/** Graph error code → specific subclass. */
+const ERROR_CLASSES: Record<number, WhatsAppErrorClass> = {
+  4: RateLimitError,
+  190: AccessTokenExpiredError,
+  80007: RateLimitError,
+  130429: RateLimitError,
+  131026: RecipientNotOnWhatsAppError,
+  131047: ReEngagementRequiredError,
+  131048: RateLimitError,
+  131056: RateLimitError,
+  132000: TemplateParamMismatchError,
+  132012: TemplateParamMismatchError,
+};
+
+/**
+ * Build the most specific {@link WhatsAppError} subclass for a Graph error code.
+ *
+ * @internal
+ */
+export function createWhatsAppError(
+  message: string,
+  statusCode: number,
+  details?: unknown,
+  retryAfter?: number,
+  graph?: GraphErrorInfo,
+): WhatsAppError {
+  const ErrorClass = (graph?.code !== undefined && ERROR_CLASSES[graph.code]) || WhatsAppError;
+  return new ErrorClass(message, statusCode, details, retryAfter, graph);
+}
+
 /**
  * Error thrown when an operation requires a storage adapter but none was configured.
  */
@@ -33,3 +169,159 @@ export class StorageNotConfiguredError extends Error {
     this.name = 'StorageNotConfiguredError';
   }
 }
+
+/**
+ * Error thrown when an account‑level operation requires a WABA ID but none was configured.
+ */
+export class WabaIdNotConfiguredError extends Error {
+  constructor() {
+    super('WABA ID not configured — pass `wabaId` via the client config.');
+    this.name = 'WabaIdNotConfiguredError';
+  }
+}
+
+/**
+ * Error thrown when a resumable upload requires a Meta app ID but none was configured.
+ */
+export class AppIdNotConfiguredError extends Error {
+  constructor() {
+    super('App ID not configured — pass `appId` via the client config.');
+    this.name = 'AppIdNotConfiguredError';
+  }
+}
+
+/**
+ * Error thrown by `OtpManager` when a custom `OtpStore` is passed without a
+ * shared `secret`.
+ */
+export class OtpSecretNotConfiguredError extends Error {
+  constructor() {
+    super('OTP secret not configured — pass `secret` with a custom OtpStore so codes verify across instances.');
+    this.name = 'OtpSecretNotConfiguredError';
+  }
+}
+
+/**
+ * Error thrown by `WhatsAppClientPool.add` when the tenant ID or its phone
+ * number is already registered.
+ */
+export class TenantConflictError extends Error {
+  /** Tenant that could not be added. */
+  readonly tenantId: string;
+
+  constructor(tenantId: string, reason: string) {
+    super(`Cannot add tenant "${tenantId}": ${reason}`);
+    this.name = 'TenantConflictError';
+    this.tenantId = tenantId;
+  }
+}
+
+/**
+ * Error thrown when a resumable upload keeps failing, or fails with an error
+ * that retrying cannot fix (e.g. a rejected token). Pass `sessionId` back
+ * as `ResumableUploadOptions.sessionId` to continue from the server offset.
+ */
+export class UploadInterruptedError extends Error {
+  /** Upload session to resume. */
+  readonly sessionId: string;
+  /** Bytes the server had confirmed when the upload gave up. */
+  readonly offset: number;
+  /** The last underlying failure. */
+  readonly cause: unknown;
+
+  constructor(sessionId: string, offset: number, cause: unknown) {
+    super(`Upload ${sessionId} interrupted at byte ${offset}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'UploadInterruptedError';
+    this.sessionId = sessionId;
+    this.offset = offset;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error a queued send rejects with when it is removed by
+ * `RateLimiter.cancel()` before being sent.
+ */
+export class SendCancelledError extends Error {
+  /** Business number the send was queued for. */
+  readonly phoneNumberId: string;
+  /** Recipient of the cancelled send. */
+  readonly recipient: string;
+
+  constructor(phoneNumberId: string, recipient: string) {
+    super(`Send to ${recipient} from ${phoneNumberId} was cancelled before it was sent`);
+    this.name = 'SendCancelledError';
+    this.phoneNumberId = phoneNumberId;
+    this.recipient = recipient;
+  }
+}
+
+/**
+ * Error thrown by `sendTemplate` preflight when the supplied components do not
+ * match the template definition. Nothing has been sent when this is thrown.
+ */
+export class TemplateValidationError extends Error {
+  /** Template name that failed validation. */
+  readonly templateName: string;
+  /** Requested language code. */
+  readonly language: string;
+  /** Every mismatch found, one per entry. */
+  readonly issues: string[];
+
+  constructor(templateName: string, language: string, issues: string[]) {
+    super(`Template "${templateName}" (${language}) failed preflight: ${issues.join('; ')}`);
+    this.name = 'TemplateValidationError';
+    this.templateName = templateName;
+    this.language = language;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown by `sendInteractive` when a message breaks a Cloud API rule
+ * that can be checked locally (missing header, too many products, …).
+ * Nothing has been sent when this is thrown.
+ */
+export class InteractiveValidationError extends Error {
+  /** The interactive `type` that failed validation. */
+  readonly interactiveType: string;
+  /** Every problem found, one per entry. */
+  readonly issues: string[];
+
+  constructor(interactiveType: string, issues: string[]) {
+    super(`Invalid ${interactiveType} interactive message: ${issues.join('; ')}`);
+    this.name = 'InteractiveValidationError';
+    this.interactiveType = interactiveType;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown by `FlowJsonBuilder.build()` when the Flow JSON breaks a rule
+ * that can be checked locally (unknown screen, duplicate name, …).
+ */
+export class FlowJsonValidationError extends Error {
+  /** Every problem found, one per entry. */
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid Flow JSON: ${issues.join('; ')}`);
+    this.name = 'FlowJsonValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Throw from a Flow endpoint handler to answer with a specific HTTP status —
+ * e.g. `427` when the flow token is expired or no longer valid.
+ */
+export class FlowEndpointError extends Error {
+  /** HTTP status code sent back to WhatsApp. */
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'FlowEndpointError';
+    this.statusCode = statusCode;
+  }
+}
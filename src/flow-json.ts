@@ -0,0 +1,284 @@
+/**
+ * Typed builder and local validator for WhatsApp Flow JSON.
+ *
+ * @module flow-json
+ */
+
+import { FlowJsonValidationError } from './errors';
+import type {
+  FlowAction,
+  FlowCompleteAction,
+  FlowComponent,
+  FlowDataExchangeAction,
+  FlowJson,
+  FlowJsonBuilderOptions,
+  FlowJsonVersion,
+  FlowNavigateAction,
+  FlowScreen,
+  FlowScreenOptions,
+} from './types';
+
+const DEFAULT_FLOW_JSON_VERSION: FlowJsonVersion = '7.0';
+
+/** Oldest Flow JSON version accepted by the Cloud API. */
+const MIN_FLOW_JSON_VERSION = '2.1';
+
+/** Components that need a newer Flow JSON version than {@link MIN_FLOW_JSON_VERSION}. */
+const COMPONENT_MIN_VERSION: Partial<Record<FlowComponent['type'], string>> = {
+  If: '4.0',
+  RichText: '5.1',
+  CalendarPicker: '6.1',
+};
+
+/** Screen id reserved by WhatsApp for the built‑in completion screen. */
+const RESERVED_SCREEN_ID = 'SUCCESS';
+
+/**
+ * Builds a Flow JSON document screen by screen and validates it on {@link build}.
+ *
+ * With `dataApiVersion` set, the `routing_model` is derived from `navigate`
+ * actions; add endpoint‑driven transitions with {@link route}.
+ *
+ * @example
+ * ```ts
+ * const flowJson = new FlowJsonBuilder()
+ *   .screen('DETAILS', {
+ *     title: 'Your details',
+ *     children: [
+ *       { type: 'TextInput', name: 'name', label: 'Name', required: true },
+ *       { type: 'Footer', label: 'Next', 'on-click-action': navigateTo('CONFIRM', { name: '${form.name}' }) },
+ *     ],
+ *   })
+ *   .screen('CONFIRM', {
+ *     title: 'Confirm',
+ *     terminal: true,
+ *     data: { name: { type: 'string', __example__: 'Ana' } },
+ *     children: [
+ *       { type: 'TextBody', text: 'Thanks, ${data.name}' },
+ *       { type: 'Footer', label: 'Done', 'on-click-action': completeFlow({ name: '${data.name}' }) },
+ *     ],
+ *   })
+ *   .build();
+ * ```
+ */
+export class FlowJsonBuilder {
+  private readonly version: FlowJsonVersion;
+  private readonly dataApiVersion?: '3.0';
+  private readonly screens: FlowScreen[] = [];
+  private readonly routes = new Map<string, Set<string>>();
+
+  constructor(opts: FlowJsonBuilderOptions = {}) {
+    this.version = opts.version ?? DEFAULT_FLOW_JSON_VERSION;
+    this.dataApiVersion = opts.dataApiVersion;
+  }
+
+  /** Append a screen. Screens are emitted in the order they are added. */
+  screen(id: string, opts: FlowScreenOptions): this {
+    this.screens.push({
+      id,
+      ...(opts.title !== undefined ? { title: opts.title } : {}),
+      ...(opts.terminal ? { terminal: true } : {}),
+      ...(opts.success !== undefined ? { success: opts.success } : {}),
+      ...(opts.refreshOnBack ? { refresh_on_back: true } : {}),
+      ...(opts.data ? { data: opts.data } : {}),
+      layout: { type: 'SingleColumnLayout', children: opts.children },
+    });
+    return this;
+  }
+
+  /** Declare screens the data endpoint may route to from `from` (endpoint Flows only). */
+  route(from: string, to: string[]): this {
+    const targets = this.routes.get(from) ?? new Set<string>();
+    for (const t of to) targets.add(t);
+    this.routes.set(from, targets);
+    return this;
+  }
+
+  /**
+   * Produce the Flow JSON document.
+   *
+   * @throws {FlowJsonValidationError} describing every problem found.
+   */
+  build(): FlowJson {
+    const json: FlowJson = {
+      version: this.version,
+      ...(this.dataApiVersion
+        ? { data_api_version: this.dataApiVersion, routing_model: this.routingModel() }
+        : {}),
+      screens: this.screens,
+    };
+    const issues = validateFlowJson(json);
+    if (issues.length) throw new FlowJsonValidationError(issues);
+    return json;
+  }
+
+  private routingModel(): Record<string, string[]> {
+    const model: Record<string, string[]> = {};
+    for (const screen of this.screens) {
+      const targets = new Set(this.routes.get(screen.id));
+      for (const action of collectActions(screen.layout.children)) {
+        if (action.name === 'navigate') targets.add(action.next.name);
+      }
+      model[screen.id] = Array.from(targets);
+    }
+    for (const [from, targets] of this.routes) {
+      model[from] ??= Array.from(targets);
+    }
+    return model;
+  }
+}
+
+/** `navigate` action to `screen`, optionally passing `payload` as its data. */
+export function navigateTo(screen: string, payload?: Record<string, unknown>): FlowNavigateAction {
+  return { name: 'navigate', next: { type: 'screen', name: screen }, ...(payload ? { payload } : {}) };
+}
+
+/** `complete` action; `payload` becomes the flow reply's `response_json`. */
+export function completeFlow(payload?: Record<string, unknown>): FlowCompleteAction {
+  return { name: 'complete', ...(payload ? { payload } : {}) };
+}
+
+/** `data_exchange` action sending `payload` to the Flow's data endpoint. */
+export function exchangeData(payload?: Record<string, unknown>): FlowDataExchangeAction {
+  return { name: 'data_exchange', ...(payload ? { payload } : {}) };
+}
+
+/**
+ * Check a Flow JSON document for problems the Cloud API would reject:
+ * unknown or duplicate screens, duplicate component names, missing terminal
+ * screens, misplaced actions and components newer than the declared version.
+ *
+ * @returns A list of human‑readable issues (empty when the document is valid).
+ */
+export function validateFlowJson(json: FlowJson): string[] {
+  const issues: string[] = [];
+  const version = parseVersion(json.version);
+
+  if (!version) {
+    issues.push(`version: "${json.version}" is not a valid Flow JSON version`);
+  } else if (compareVersions(version, parseVersion(MIN_FLOW_JSON_VERSION)!) < 0) {
+    issues.push(`version: ${json.version} is no longer supported (minimum ${MIN_FLOW_JSON_VERSION})`);
+  }
+
+  if (!json.screens?.length) {
+    issues.push('screens: at least one screen is required');
+    return issues;
+  }
+
+  const ids = new Set<string>();
+  for (const screen of json.screens) {
+    if (ids.has(screen.id)) issues.push(`screen ${screen.id}: duplicate screen id`);
+    if (screen.id === RESERVED_SCREEN_ID) issues.push(`screen ${screen.id}: "${RESERVED_SCREEN_ID}" is a reserved screen id`);
+    ids.add(screen.id);
+  }
+
+  if (!json.screens.some((s) => s.terminal)) {
+    issues.push('screens: at least one screen must be terminal');
+  }
+
+  for (const screen of json.screens) {
+    const label = `screen ${screen.id}`;
+    const children = screen.layout?.children ?? [];
+
+    for (const name of duplicateNames(children)) {
+      issues.push(`${label}: duplicate component name "${name}"`);
+    }
+
+    if (version) {
+      for (const type of collectTypes(children)) {
+        const min = COMPONENT_MIN_VERSION[type];
+        if (min && compareVersions(version, parseVersion(min)!) < 0) {
+          issues.push(`${label}: ${type} requires Flow JSON ${min} or later (declared ${json.version})`);
+        }
+      }
+    }
+
+    for (const action of collectActions(children)) {
+      if (action.name === 'navigate' && !ids.has(action.next.name)) {
+        issues.push(`${label}: navigate action references unknown screen "${action.next.name}"`);
+      } else if (action.name === 'complete' && !screen.terminal) {
+        issues.push(`${label}: complete action is only allowed on terminal screens`);
+      } else if (action.name === 'data_exchange' && !json.data_api_version) {
+        issues.push(`${label}: data_exchange action requires data_api_version`);
+      }
+    }
+  }
+
+  if (json.data_api_version && !json.routing_model) {
+    issues.push('routing_model: required when data_api_version is set');
+  }
+  for (const [from, targets] of Object.entries(json.routing_model ?? {})) {
+    if (!ids.has(from)) issues.push(`routing_model: unknown screen "${from}"`);
+    for (const to of targets) {
+      if (!ids.has(to)) issues.push(`routing_model: ${from} routes to unknown screen "${to}"`);
+    }
+  }
+
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Component tree helpers
+// ---------------------------------------------------------------------------
+
+function forEachComponent(components: FlowComponent[], fn: (c: FlowComponent) => void): void {
+  for (const c of components) {
+    fn(c);
+    if (c.type === 'Form') forEachComponent(c.children, fn);
+    if (c.type === 'If') {
+      forEachComponent(c.then, fn);
+      forEachComponent(c.else ?? [], fn);
+    }
+  }
+}
+
+function collectTypes(components: FlowComponent[]): Set<FlowComponent['type']> {
+  const types = new Set<FlowComponent['type']>();
+  forEachComponent(components, (c) => types.add(c.type));
+  return types;
+}
+
+function collectActions(components: FlowComponent[]): FlowAction[] {
+  const actions: FlowAction[] = [];
+  forEachComponent(components, (c) => {
+    for (const key of ['on-click-action', 'on-select-action'] as const) {
+      const action = (c as Partial<Record<typeof key, FlowAction>>)[key];
+      if (action) actions.push(action);
+    }
+  });
+  return actions;
+}
+
+/**
+ * Input names that appear more than once on a screen. The `then` and `else`
+ * branches of an `If` are mutually exclusive, so a name may appear in both.
+ */
+function duplicateNames(components: FlowComponent[]): string[] {
+  const duplicates = new Set<string>();
+  const walk = (list: FlowComponent[]): Set<string> => {
+    const seen = new Set<string>();
+    const add = (name: string): void => {
+      if (seen.has(name)) duplicates.add(name);
+      seen.add(name);
+    };
+    for (const c of list) {
+      if ('name' in c && c.type !== 'Form') add(c.name);
+      if (c.type === 'Form') walk(c.children).forEach(add);
+      if (c.type === 'If') {
+        new Set([...walk(c.then), ...walk(c.else ?? [])]).forEach(add);
+      }
+    }
+    return seen;
+  };
+  walk(components);
+  return Array.from(duplicates);
+}
+
+function parseVersion(v: string): [number, number] | undefined {
+  const m = /^(\d+)\.(\d+)$/.exec(v);
+  return m ? [Number(m[1]), Number(m[2])] : undefined;
+}
+
+function compareVersions(a: [number, number], b: [number, number]): number {
+  return a[0] - b[0] || a[1] - b[1];
+}
@@ -0,0 +1,45 @@
+/**
+ * Builder for Flow interactive messages.
+ *
+ * @module flow-message
+ */
+
+import type { InteractiveFlow, InteractiveFlowParameters, SendFlowInput } from './types';
+
+/**
+ * Build a `flow` interactive message from camelCase input.
+ *
+ * @example
+ * ```ts
+ * const msg = buildFlowMessage({
+ *   flowId: '1234567890',
+ *   flowCta: 'Book now',
+ *   flowToken: 'booking-42',
+ *   body: 'Pick a time slot',
+ *   screen: 'SLOTS',
+ *   data: { date: '2026-03-01' },
+ * });
+ * await client.sendInteractive(to, msg);
+ * ```
+ */
+export function buildFlowMessage(input: SendFlowInput): InteractiveFlow {
+  const parameters: InteractiveFlowParameters = {
+    flow_message_version: '3',
+    ...(input.flowId ? { flow_id: input.flowId } : { flow_name: input.flowName }),
+    flow_cta: input.flowCta,
+    ...(input.flowToken ? { flow_token: input.flowToken } : {}),
+    ...(input.mode ? { mode: input.mode } : {}),
+    flow_action: input.action ?? 'navigate',
+    ...(input.action !== 'data_exchange'
+      ? { flow_action_payload: { screen: input.screen, ...(input.data ? { data: input.data } : {}) } }
+      : {}),
+  };
+
+  return {
+    type: 'flow',
+    ...(input.header ? { header: input.header } : {}),
+    body: { text: input.body },
+    ...(input.footer ? { footer: { text: input.footer } } : {}),
+    action: { name: 'flow', parameters },
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * WhatsApp Flows management against the WABA `flows` edge.
+ *
+ * Exposed as `client.flows` — not meant to be constructed directly.
+ *
+ * @module flows
+ */
+
+import { WabaIdNotConfiguredError, WhatsAppError } from './errors';
+import type { HttpClient } from './http';
+import { fetchPage, iteratePages } from './paging';
+import type {
+  CreateFlowInput,
+  CreateFlowResult,
+  Flow,
+  FlowJson,
+  FlowPreview,
+  FlowValidationIssue,
+  GraphPage,
+  ListFlowsOptions,
+  UpdateFlowInput,
+  UploadFlowJsonResult,
+} from './types';
+
+/** Fields requested by {@link FlowsApi.get}. */
+const FLOW_FIELDS = [
+  'id',
+  'name',
+  'status',
+  'categories',
+  'validation_errors',
+  'json_version',
+  'data_api_version',
+  'endpoint_uri',
+  'preview',
+  'health_status',
+].join(',');
+
+/**
+ * Create, upload, publish, deprecate and delete WhatsApp Flows.
+ *
+ * @example
+ * ```ts
+ * const { id } = await client.flows.create({ name: 'booking', categories: ['APPOINTMENT_BOOKING'] });
+ * const { validation_errors } = await client.flows.uploadJson(id, flowJson);
+ * if (validation_errors.length === 0) await client.flows.publish(id);
+ * ```
+ */
+export class FlowsApi {
+  private readonly http: HttpClient;
+  private readonly baseUrl: string;
+  private readonly wabaId?: string;
+
+  /** @internal */
+  constructor(http: HttpClient, baseUrl: string, wabaId?: string) {
+    this.http = http;
+    this.baseUrl = baseUrl;
+    this.wabaId = wabaId;
+  }
+
+  private edgeUrl(): string {
+    if (!this.wabaId) throw new WabaIdNotConfiguredError();
+    return `${this.baseUrl}/${this.wabaId}/flows`;
+  }
+
+  /**
+   * Iterate over every Flow of the WABA, fetching pages lazily.
+   *
+   * @param opts - Optional page size.
+   */
+  async *list(opts?: ListFlowsOptions): AsyncIterableIterator<Flow> {
+    yield* iteratePages((after) => this.listPage({ ...opts, after }), opts?.after);
+  }
+
+  /**
+   * Fetch a single page of Flows.
+   *
+   * @param opts - Optional page size and `after` cursor.
+   * @returns The Flows on this page and the cursor for the next one.
+   */
+  async listPage(opts?: ListFlowsOptions): Promise<GraphPage<Flow>> {
+    return fetchPage<Flow>(this.http, this.edgeUrl(), new URLSearchParams(), opts);
+  }
+
+  /**
+   * Fetch a Flow with its status, validation errors, versions and preview.
+   *
+   * @param flowId - The Flow ID.
+   */
+  async get(flowId: string): Promise<Flow> {
+    return this.http.request<Flow>(`${this.baseUrl}/${flowId}?fields=${FLOW_FIELDS}`, { method: 'GET' });
+  }
+
+  /**
+   * Create a draft Flow, optionally with its Flow JSON (and publish it).
+   *
+   * @param input - Name, categories and optional JSON, endpoint or Flow to clone.
+   * @returns The new Flow ID and any validation errors in the supplied JSON.
+   */
+  async create(input: CreateFlowInput): Promise<CreateFlowResult> {
+    const { flow_json, ...rest } = input;
+    return this.http.request<CreateFlowResult>(this.edgeUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...rest,
+        ...(flow_json !== undefined ? { flow_json: serializeFlowJson(flow_json) } : {}),
+      }),
+    });
+  }
+
+  /**
+   * Change a Flow's metadata (name, categories, endpoint).
+   *
+   * @param flowId - The Flow ID.
+   * @param patch - The fields to change.
+   */
+  async update(flowId: string, patch: UpdateFlowInput): Promise<void> {
+    await this.http.request(`${this.baseUrl}/${flowId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    });
+  }
+
+  /**
+   * Upload `flow.json` to a draft Flow, replacing its current JSON.
+   *
+   * @param flowId - The Flow ID.
+   * @param json - The Flow JSON (e.g. from `FlowJsonBuilder.build()`) or its serialized form.
+   * @returns Whether the upload succeeded and the validation errors Meta found.
+   */
+  async uploadJson(flowId: string, json: FlowJson | string): Promise<UploadFlowJsonResult> {
+    const formData = new FormData();
+    formData.append('file', new Blob([serializeFlowJson(json)], { type: 'application/json' }), 'flow.json');
+    formData.append('name', 'flow.json');
+    formData.append('asset_type', 'FLOW_JSON');
+
+    const res = await this.http.request<Partial<UploadFlowJsonResult>>(`${this.baseUrl}/${flowId}/assets`, {
+      method: 'POST',
+      // Let fetch set the Content-Type with boundary for FormData
+      body: formData,
+    });
+    return { success: res?.success ?? false, validation_errors: res?.validation_errors ?? [] };
+  }
+
+  /**
+   * Fetch the validation errors of a Flow's current JSON.
+   *
+   * @param flowId - The Flow ID.
+   * @returns The errors (empty when the Flow can be published).
+   */
+  async validationErrors(flowId: string): Promise<FlowValidationIssue[]> {
+    const res = await this.http.request<Pick<Flow, 'validation_errors'>>(
+      `${this.baseUrl}/${flowId}?fields=validation_errors`,
+      { method: 'GET' },
+    );
+    return res?.validation_errors ?? [];
+  }
+
+  /**
+   * Publish a draft Flow. Published Flows can no longer be edited.
+   *
+   * @param flowId - The Flow ID.
+   */
+  async publish(flowId: string): Promise<void> {
+    await this.http.request(`${this.baseUrl}/${flowId}/publish`, { method: 'POST' });
+  }
+
+  /**
+   * Deprecate a published Flow so it can no longer be sent.
+   *
+   * @param flowId - The Flow ID.
+   */
+  async deprecate(flowId: string): Promise<void> {
+    await this.http.request(`${this.baseUrl}/${flowId}/deprecate`, { method: 'POST' });
+  }
+
+  /**
+   * Delete a draft Flow. Published Flows must be deprecated instead.
+   *
+   * @param flowId - The Flow ID.
+   */
+  async delete(flowId: string): Promise<void> {
+    await this.http.request(`${this.baseUrl}/${flowId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Get a web preview URL for a Flow.
+   *
+   * @param flowId - The Flow ID.
+   * @param opts - Set `invalidate` to generate a new URL, expiring the previous one.
+   */
+  async preview(flowId: string, opts?: { invalidate?: boolean }): Promise<FlowPreview> {
+    const fields = `preview.invalidate(${opts?.invalidate ? 'true' : 'false'})`;
+    const res = await this.http.request<Pick<Flow, 'preview'>>(
+      `${this.baseUrl}/${flowId}?fields=${encodeURIComponent(fields)}`,
+      { method: 'GET' },
+    );
+    if (!res?.preview) throw new WhatsAppError('No preview in response', 0, res);
+    return res.preview;
+  }
+}
+
+function serializeFlowJson(json: FlowJson | string): string {
+  return typeof json === 'string' ? json : JSON.stringify(json);
+}
@@ -6,7 +6,8 @@
  * @internal
  */
 
-import { WhatsAppError } from './errors';
+import { AccessTokenManager } from './access-token';
+import { NetworkError, WhatsAppError, createWhatsAppError, type GraphErrorInfo } from './errors';
 import type { HttpOptions } from './types';
 
 /** Default configuration values. */
@@ -16,10 +17,19 @@ const DEFAULTS: Required<HttpOptions> = {
   backoffMs: 1_000,
 };
 
+/** Graph error code for an expired, revoked or otherwise invalid access token. */
+const INVALID_TOKEN_CODE = 190;
+
+/** @internal */
+export interface HttpRequestInit extends RequestInit {
+  /** Scheme used for the access token (upload sessions expect `OAuth`). @default 'Bearer' */
+  authScheme?: 'Bearer' | 'OAuth';
+}
+
 /** @internal */
 export interface HttpClient {
-  request<T = unknown>(url: string, init: RequestInit): Promise<T>;
-  requestRaw(url: string, init: RequestInit): Promise<Response>;
+  request<T = unknown>(url: string, init: HttpRequestInit): Promise<T>;
+  requestRaw(url: string, init: HttpRequestInit): Promise<Response>;
 }
 
 /**
@@ -28,32 +38,42 @@ export interface HttpClient {
  * - Retries only on 429 (rate‑limit) and 5xx responses.
  * - Uses exponential back‑off with ±25 % jitter.
  * - Uses `AbortController` for timeout enforcement.
+ * - Retries once with a fresh token when Graph rejects a provided one (190).
  *
  * @internal
  */
 export function createHttpClient(
-  accessToken: string,
+  accessToken: string | AccessTokenManager,
   opts?: HttpOptions,
 ): HttpClient {
   const cfg = { ...DEFAULTS, ...opts };
+  const tokens = typeof accessToken === 'string' ? new AccessTokenManager(accessToken) : accessToken;
+
+  async function requestRaw(url: string, init: HttpRequestInit): Promise<Response> {
+    const { authScheme = 'Bearer', ...rest } = init;
+    if (new Headers(rest.headers).has('Authorization')) return send(url, rest);
+
+    const token = await tokens.get();
+    let checked = await checkTokenRejection(await send(url, withAuthorization(rest, `${authScheme} ${token}`)));
+    if (!checked.error) return checked.res;
 
-  async function requestRaw(url: string, init: RequestInit): Promise<Response> {
+    const fresh = await tokens.replace(token, checked.error);
+    if (fresh === undefined) return checked.res;
+    checked = await checkTokenRejection(await send(url, withAuthorization(rest, `${authScheme} ${fresh}`)));
+    if (checked.error) tokens.reject(checked.error);
+    return checked.res;
+  }
+
+  async function send(url: string, init: RequestInit): Promise<Response> {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= cfg.maxRetries; attempt++) {
       const controller = new AbortController();
       const timer = setTimeout(() => controller.abort(), cfg.timeoutMs);
 
-      // Merge caller headers with auth header.
-      const headers = new Headers(init.headers);
-      if (!headers.has('Authorization')) {
-        headers.set('Authorization', `Bearer ${accessToken}`);
-      }
-
       try {
         const res = await fetch(url, {
           ...init,
-          headers,
           signal: controller.signal,
         });
 
@@ -65,12 +85,7 @@ export function createHttpClient(
         // Retryable status — capture for potential rethrow.
         const body = await res.text().catch(() => '');
         const retryAfter = res.headers.get('retry-after');
-        lastError = new WhatsAppError(
-          `WhatsApp API error ${res.status}`,
-          res.status,
-          tryParseJson(body),
-          retryAfter ? Number(retryAfter) : undefined,
-        );
+        lastError = apiError(res.status, body, retryAfter);
 
         // If we still have retries left, wait and continue.
         if (attempt < cfg.maxRetries) {
@@ -82,12 +97,9 @@ export function createHttpClient(
         if (err instanceof WhatsAppError) {
           lastError = err;
         } else if (err instanceof DOMException && err.name === 'AbortError') {
-          lastError = new WhatsAppError('Request timed out', 0);
+          lastError = new NetworkError('Request timed out');
         } else {
-          lastError = new WhatsAppError(
-            err instanceof Error ? err.message : 'Unknown fetch error',
-            0,
-          );
+          lastError = new NetworkError(err instanceof Error ? err.message : 'Unknown fetch error');
         }
         if (attempt < cfg.maxRetries) {
           await sleep(computeBackoff(cfg.backoffMs, attempt));
@@ -101,18 +113,13 @@ export function createHttpClient(
     throw lastError ?? new WhatsAppError('Request failed', 0);
   }
 
-  async function request<T = unknown>(url: string, init: RequestInit): Promise<T> {
+  async function request<T = unknown>(url: string, init: HttpRequestInit): Promise<T> {
     const res = await requestRaw(url, init);
 
     if (!res.ok) {
       const body = await res.text().catch(() => '');
       const retryAfter = res.headers.get('retry-after');
-      throw new WhatsAppError(
-        `WhatsApp API error ${res.status}`,
-        res.status,
-        tryParseJson(body),
-        retryAfter ? Number(retryAfter) : undefined,
-      );
+      throw apiError(res.status, body, retryAfter);
     }
 
     const text = await res.text();
@@ -126,6 +133,59 @@ export function createHttpClient(
 // Helpers
 // ---------------------------------------------------------------------------
 
+function withAuthorization(init: RequestInit, authorization: string): RequestInit {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', authorization);
+  return { ...init, headers };
+}
+
+/**
+ * Detect a rejected access token (Graph code 190). The body has to be read to
+ * tell, so the response is rebuilt for the caller.
+ */
+async function checkTokenRejection(res: Response): Promise<{ res: Response; error?: WhatsAppError }> {
+  if (res.status !== 400 && res.status !== 401) return { res };
+  const body = await res.text().catch(() => '');
+  const rebuilt = new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+  const error = apiError(res.status, body, null);
+  return error.code === INVALID_TOKEN_CODE ? { res: rebuilt, error } : { res: rebuilt };
+}
+
+/** Build a typed error from a non‑2xx response body. */
+function apiError(status: number, body: string, retryAfter: string | null): WhatsAppError {
+  const details = tryParseJson(body);
+  const graph = parseGraphError(details);
+  return createWhatsAppError(
+    graph?.message ? `WhatsApp API error ${status}: ${graph.message}` : `WhatsApp API error ${status}`,
+    status,
+    details,
+    retryAfter ? Number(retryAfter) : undefined,
+    graph,
+  );
+}
+
+/**
+ * Parse a Graph API error envelope:
+ * `{ error: { message, type, code, error_subcode, error_data: { details }, fbtrace_id } }`.
+ *
+ * @internal
+ */
+export function parseGraphError(details: unknown): GraphErrorInfo | undefined {
+  if (!details || typeof details !== 'object') return undefined;
+  const err = (details as Record<string, unknown>).error;
+  if (!err || typeof err !== 'object') return undefined;
+  const e = err as Record<string, unknown>;
+  const data = e.error_data as Record<string, unknown> | undefined;
+  return {
+    code: typeof e.code === 'number' ? e.code : undefined,
+    subcode: typeof e.error_subcode === 'number' ? e.error_subcode : undefined,
+    type: typeof e.type === 'string' ? e.type : undefined,
+    message: typeof e.message === 'string' ? e.message : undefined,
+    errorDetails: typeof data?.details === 'string' ? data.details : undefined,
+    fbtraceId: typeof e.fbtrace_id === 'string' ? e.fbtrace_id : undefined,
+  };
+}
+
 function computeBackoff(baseMs: number, attempt: number, retryAfterHeader?: string | null): number {
   if (retryAfterHeader) {
     const seconds = Number(retryAfterHeader);
@@ -10,12 +10,74 @@
 
 // Core client
 export { WhatsAppClient, verifyWebhookSignature } from './client';
+export type { TemplatesApi } from './templates';
+export type { FlowsApi } from './flows';
+export type { PhoneNumbersApi } from './phone-numbers';
+export type { UploadsApi } from './uploads';
+
+// Outbound rate limiting
+export { RateLimiter } from './rate-limiter';
+
+// Durable outbox
+export { Outbox, MemoryOutboxStore, FileOutboxStore } from './outbox';
+export type { OutboxEntry, OutboxStore, OutboxOptions } from './outbox';
+
+// Bulk sending
+export { Broadcast } from './broadcast';
+export type {
+  BroadcastMessageFactory,
+  BroadcastOptions,
+  BroadcastError,
+  BroadcastResult,
+  BroadcastProgress,
+  BroadcastReport,
+  BroadcastEvents,
+} from './broadcast';
+
+// Multi‑tenant pool
+export { WhatsAppClientPool } from './pool';
+export type { PoolTenant, WhatsAppClientPoolOptions, WhatsAppPoolEvents } from './pool';
 
 // Inbound parsing (convenience re‑export)
-export { parseIncoming, parseStatuses } from './parse-incoming';
+export {
+  parseIncoming,
+  parseStatuses,
+  parsePaymentStatuses,
+  parseAccountEvents,
+  parseTemplateEvents,
+} from './parse-incoming';
+
+// Flow / order / payment message builders
+export { buildFlowMessage } from './flow-message';
+export { FlowJsonBuilder, navigateTo, completeFlow, exchangeData, validateFlowJson } from './flow-json';
+export { buildOrderDetails, buildOrderStatus } from './orders';
+
+// One‑time passwords
+export { OtpManager, MemoryOtpStore } from './otp';
+export type { OtpStore, OtpRecord, OtpManagerOptions, OtpVerifyResult } from './otp';
 
 // Errors
-export { WhatsAppError, StorageNotConfiguredError } from './errors';
+export {
+  WhatsAppError,
+  ReEngagementRequiredError,
+  RecipientNotOnWhatsAppError,
+  RateLimitError,
+  NetworkError,
+  AccessTokenExpiredError,
+  TemplateParamMismatchError,
+  StorageNotConfiguredError,
+  WabaIdNotConfiguredError,
+  AppIdNotConfiguredError,
+  OtpSecretNotConfiguredError,
+  TenantConflictError,
+  SendCancelledError,
+  UploadInterruptedError,
+  TemplateValidationError,
+  InteractiveValidationError,
+  FlowJsonValidationError,
+  FlowEndpointError,
+} from './errors';
+export type { GraphErrorInfo } from './errors';
 
 // Storage adapter interface (so consumers can implement their own)
 export type { StorageAdapter, StorageSaveInput, StorageSaveResult } from './storage/adapter';
@@ -25,6 +87,13 @@ export type {
   // Config
   WhatsAppClientConfig,
   HttpOptions,
+  AccessTokenProvider,
+  AccessTokenInfo,
+  TokenRefreshedEvent,
+  RateLimitOptions,
+  RateLimiterMetrics,
+  OutboxFailedEvent,
+  TemplatePreflightOptions,
   // Send
   SendResponse,
   CommonSendOptions,
@@ -37,8 +106,36 @@ export type {
   SendStickerOptions,
   Location,
   SendTemplateOptions,
+  SendOtpOptions,
   TemplateComponent,
+  TemplateHeaderComponent,
+  TemplateBodyComponent,
+  TemplateButtonComponent,
+  TemplateButtonSubType,
+  TemplateLimitedTimeOfferComponent,
+  TemplateCarouselComponent,
+  TemplateCarouselCard,
   TemplateParameter,
+  TemplateActionParameter,
+  // Template management
+  TemplateCategory,
+  TemplateStatus,
+  TemplateParameterFormat,
+  TemplateNamedParamExample,
+  TemplateComponentDefinition,
+  TemplateHeaderDefinition,
+  TemplateBodyDefinition,
+  TemplateFooterDefinition,
+  TemplateButtonsDefinition,
+  TemplateButtonDefinition,
+  TemplateLimitedTimeOfferDefinition,
+  TemplateCarouselDefinition,
+  MessageTemplate,
+  CreateTemplateInput,
+  CreateTemplateResult,
+  UpdateTemplateInput,
+  ListTemplatesOptions,
+  GraphPage,
   // Contacts
   Contact,
   ContactName,
@@ -56,13 +153,85 @@ export type {
   InteractiveFlow,
   InteractiveCTA,
   InteractiveLocationRequest,
+  InteractiveProduct,
+  InteractiveProductList,
+  InteractiveProductSection,
+  InteractiveCatalogMessage,
+  InteractiveFlowParameters,
+  SendFlowInput,
+  SendFlowBase,
+  InteractiveOrderDetails,
+  InteractiveOrderStatus,
+  OrderAmount,
+  OrderStatus,
+  OrderDetailsItem,
+  OrderDetailsInput,
+  OrderStatusInput,
   InteractiveHeader,
   SendInteractiveOptions,
+  // Flow JSON
+  FlowJson,
+  FlowJsonVersion,
+  FlowJsonBuilderOptions,
+  FlowScreen,
+  FlowScreenOptions,
+  FlowScreenDataField,
+  FlowLayout,
+  FlowComponent,
+  FlowTextComponent,
+  FlowDataSourceOption,
+  FlowTextInput,
+  FlowTextArea,
+  FlowDropdown,
+  FlowRadioButtonsGroup,
+  FlowCheckboxGroup,
+  FlowDatePicker,
+  FlowCalendarPicker,
+  FlowOptIn,
+  FlowEmbeddedLink,
+  FlowFooter,
+  FlowForm,
+  FlowIf,
+  FlowAction,
+  FlowNavigateAction,
+  FlowCompleteAction,
+  FlowDataExchangeAction,
+  // Flow management
+  Flow,
+  FlowStatus,
+  FlowCategory,
+  FlowValidationIssue,
+  FlowPreview,
+  CreateFlowInput,
+  CreateFlowResult,
+  UpdateFlowInput,
+  UploadFlowJsonResult,
+  ListFlowsOptions,
+  // Resumable uploads
+  UploadSource,
+  ResumableUploadOptions,
+  UploadProgress,
+  ResumableUploadResult,
+  // Business profile
+  BusinessProfile,
+  BusinessProfileField,
+  BusinessVertical,
+  UpdateBusinessProfileInput,
+  // Phone numbers
+  PhoneNumber,
+  PhoneNumberQualityRating,
+  MessagingLimitTier,
+  PhoneNumberNameStatus,
+  CodeVerificationStatus,
+  ListPhoneNumbersOptions,
+  RequestCodeOptions,
+  RegisterPhoneNumberOptions,
   // Media
   UploadMediaResult,
   MediaUrlResult,
   // Inbound
   InboundBase,
+  InboundContext,
   InboundMessage,
   InboundMessageType,
   InboundText,
@@ -76,6 +245,7 @@ export type {
   InboundInteractiveReply,
   InboundReaction,
   InboundFlowReply,
+  InboundButton,
   InboundOrder,
   OrderProductItem,
   InboundSystem,
@@ -83,6 +253,24 @@ export type {
   InboundUnsupported,
   // Status
   StatusUpdate,
+  PaymentStatusUpdate,
+  // Account events
+  AccountEvent,
+  AccountEventBase,
+  PhoneNumberQualityUpdate,
+  AccountUpdate,
+  AccountAlert,
+  AccountReviewUpdate,
+  BusinessCapabilityUpdate,
+  PhoneNumberNameUpdate,
+  // Template events
+  TemplateEvent,
+  TemplateEventBase,
+  TemplateStatusEvent,
+  TemplateQualityScore,
+  TemplateStatusUpdate,
+  TemplateQualityUpdate,
+  TemplateCategoryUpdate,
   // Webhook
   WebhookPayload,
   WebhookEntry,
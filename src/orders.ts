@@ -0,0 +1,123 @@
+/**
+ * Builders for the payment‑related interactive messages: `order_details`
+ * (review and pay) and `order_status` (order updates).
+ *
+ * @module orders
+ */
+
+import type {
+  InteractiveOrderDetails,
+  InteractiveOrderStatus,
+  OrderAmount,
+  OrderDetailsInput,
+  OrderStatusInput,
+} from './types';
+
+/**
+ * Build an `order_details` interactive message. The subtotal is computed from
+ * the items (sale price when present) and the total from
+ * subtotal + tax + shipping − discount, so the amounts always add up.
+ *
+ * @example
+ * ```ts
+ * const msg = buildOrderDetails({
+ *   referenceId: 'order-42',
+ *   paymentConfiguration: 'my-upi-config',
+ *   currency: 'INR',
+ *   body: 'Your order is ready for payment',
+ *   items: [{ retailerId: 'sku_1', name: 'T‑shirt', amount: 50000, quantity: 2 }],
+ *   tax: 9000,
+ * });
+ * await client.sendInteractive(to, msg);
+ * ```
+ */
+export function buildOrderDetails(input: OrderDetailsInput): InteractiveOrderDetails {
+  const offset = input.offset ?? 100;
+  const amount = (value: number): OrderAmount => ({ value, offset });
+
+  const subtotal = input.items.reduce((sum, item) => sum + (item.saleAmount ?? item.amount) * item.quantity, 0);
+  const total = subtotal + (input.tax ?? 0) + (input.shipping ?? 0) - (input.discount ?? 0);
+
+  return {
+    type: 'order_details',
+    ...(input.header ? { header: input.header } : {}),
+    body: { text: input.body },
+    ...(input.footer ? { footer: { text: input.footer } } : {}),
+    action: {
+      name: 'review_and_pay',
+      parameters: {
+        reference_id: input.referenceId,
+        type: input.goodsType ?? 'physical-goods',
+        ...(input.paymentType ? { payment_type: input.paymentType } : {}),
+        payment_configuration: input.paymentConfiguration,
+        currency: input.currency,
+        total_amount: amount(total),
+        order: {
+          status: 'pending',
+          ...(input.catalogId ? { catalog_id: input.catalogId } : {}),
+          ...(input.expiration
+            ? {
+                expiration: {
+                  timestamp: String(input.expiration.timestamp),
+                  description: input.expiration.description,
+                },
+              }
+            : {}),
+          items: input.items.map((item) => ({
+            retailer_id: item.retailerId,
+            name: item.name,
+            amount: amount(item.amount),
+            quantity: item.quantity,
+            ...(item.saleAmount !== undefined ? { sale_amount: amount(item.saleAmount) } : {}),
+            ...(item.countryOfOrigin ? { country_of_origin: item.countryOfOrigin } : {}),
+            ...(item.importerName ? { importer_name: item.importerName } : {}),
+            ...(item.importerAddress ? { importer_address: item.importerAddress } : {}),
+          })),
+          subtotal: amount(subtotal),
+          tax: {
+            ...amount(input.tax ?? 0),
+            ...(input.taxDescription ? { description: input.taxDescription } : {}),
+          },
+          ...(input.shipping !== undefined
+            ? {
+                shipping: {
+                  ...amount(input.shipping),
+                  ...(input.shippingDescription ? { description: input.shippingDescription } : {}),
+                },
+              }
+            : {}),
+          ...(input.discount !== undefined
+            ? {
+                discount: {
+                  ...amount(input.discount),
+                  ...(input.discountDescription ? { description: input.discountDescription } : {}),
+                },
+              }
+            : {}),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Build an `order_status` interactive message for an order previously sent
+ * with {@link buildOrderDetails}.
+ */
+export function buildOrderStatus(input: OrderStatusInput): InteractiveOrderStatus {
+  return {
+    type: 'order_status',
+    body: { text: input.body },
+    ...(input.footer ? { footer: { text: input.footer } } : {}),
+    action: {
+      name: 'review_order',
+      parameters: {
+        reference_id: input.referenceId,
+        order: {
+          status: input.status,
+          ...(input.description ? { description: input.description } : {}),
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Local one‑time‑password generation and verification with expiry and
+ * attempt limits, backed by a pluggable {@link OtpStore}.
+ *
+ * Pair it with `client.sendOtp()` to deliver the code through an
+ * authentication template.
+ *
+ * @module otp
+ */
+
+import crypto from 'crypto';
+
+import { OtpSecretNotConfiguredError } from './errors';
+
+/** A stored OTP. Only a hash of the code is persisted. */
+export interface OtpRecord {
+  /** HMAC‑SHA256 of the code (hex). */
+  hash: string;
+  /** Epoch milliseconds after which the code is rejected. */
+  expiresAt: number;
+  /** Verification attempts so far, including the one being checked. */
+  attempts: number;
+}
+
+/**
+ * Interface every OTP store must implement (Redis, a database table, …).
+ *
+ * @example
+ * ```ts
+ * class RedisOtpStore implements OtpStore {
+ *   async get(key) {
+ *     const [json, attempts] = await redis.mget(key, `${key}:attempts`);
+ *     return json ? { ...JSON.parse(json), attempts: Number(attempts ?? 0) } : undefined;
+ *   }
+ *   async set(key, record) {
+ *     await redis.multi()
+ *       .set(key, JSON.stringify(record), 'PXAT', record.expiresAt)
+ *       .set(`${key}:attempts`, record.attempts, 'PXAT', record.expiresAt)
+ *       .exec();
+ *   }
+ *   async incrementAttempts(key) {
+ *     const attempts = await redis.incr(`${key}:attempts`);
+ *     const json = await redis.get(key);
+ *     return json ? { ...JSON.parse(json), attempts } : undefined;
+ *   }
+ *   async delete(key) { await redis.del(key, `${key}:attempts`); }
+ * }
+ * ```
+ */
+export interface OtpStore {
+  get(key: string): Promise<OtpRecord | undefined>;
+  set(key: string, record: OtpRecord): Promise<void>;
+  /**
+   * Atomically add one to `attempts` and return the updated record, or
+   * `undefined` when there is none. Concurrent calls must each see a
+   * different count, otherwise parallel guesses get past `maxAttempts`.
+   */
+  incrementAttempts(key: string): Promise<OtpRecord | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+/** Process‑local OTP store. Fine for a single instance and for tests. */
+export class MemoryOtpStore implements OtpStore {
+  private readonly records = new Map<string, OtpRecord>();
+
+  /** @inheritdoc */
+  async get(key: string): Promise<OtpRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  /** @inheritdoc */
+  async set(key: string, record: OtpRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  /** @inheritdoc */
+  async incrementAttempts(key: string): Promise<OtpRecord | undefined> {
+    const record = this.records.get(key);
+    if (!record) return undefined;
+    const updated = { ...record, attempts: record.attempts + 1 };
+    this.records.set(key, updated);
+    return updated;
+  }
+
+  /** @inheritdoc */
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/** Options for {@link OtpManager}. */
+export interface OtpManagerOptions {
+  /** Where codes are kept. @default new MemoryOtpStore() */
+  store?: OtpStore;
+  /** Number of digits. @default 6 */
+  length?: number;
+  /** Code lifetime in milliseconds. @default 300_000 (5 min) */
+  ttlMs?: number;
+  /** Failed attempts allowed before the code is invalidated. @default 5 */
+  maxAttempts?: number;
+  /**
+   * Secret used to hash stored codes. Required with a custom `store`: every
+   * instance sharing the store must use the same secret, or codes generated
+   * elsewhere (or before a restart) never verify.
+   * @default a random per‑process secret (only with the built‑in `MemoryOtpStore`)
+   */
+  secret?: string;
+}
+
+/** Result of {@link OtpManager.verify}. */
+export type OtpVerifyResult =
+  | { ok: true }
+  | { ok: false; reason: 'not_found' | 'expired' | 'too_many_attempts' }
+  | { ok: false; reason: 'invalid'; attemptsLeft: number };
+
+/**
+ * Generates and verifies numeric one‑time passwords.
+ *
+ * @example
+ * ```ts
+ * const otp = new OtpManager({ ttlMs: 10 * 60_000 });
+ * const { code } = await otp.generate(phone);
+ * await client.sendOtp(phone, 'login_code', code);
+ * // later…
+ * const result = await otp.verify(phone, userInput);
+ * ```
+ */
+export class OtpManager {
+  private readonly store: OtpStore;
+  private readonly length: number;
+  private readonly ttlMs: number;
+  private readonly maxAttempts: number;
+  private readonly secret: string;
+
+  /** @throws {OtpSecretNotConfiguredError} if a custom `store` is passed without a `secret`. */
+  constructor(opts?: OtpManagerOptions) {
+    if (opts?.store && !(opts.store instanceof MemoryOtpStore) && !opts.secret) {
+      throw new OtpSecretNotConfiguredError();
+    }
+    this.store = opts?.store ?? new MemoryOtpStore();
+    this.length = opts?.length ?? 6;
+    this.ttlMs = opts?.ttlMs ?? 300_000;
+    this.maxAttempts = opts?.maxAttempts ?? 5;
+    this.secret = opts?.secret ?? crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Generate a fresh code for `key` (usually the recipient phone number),
+   * replacing any previous one.
+   *
+   * @returns The plain‑text code to send and its expiry (epoch ms).
+   */
+  async generate(key: string): Promise<{ code: string; expiresAt: number }> {
+    let code = '';
+    for (let i = 0; i < this.length; i++) code += crypto.randomInt(0, 10).toString();
+    const expiresAt = Date.now() + this.ttlMs;
+    await this.store.set(key, { hash: this.hash(key, code), expiresAt, attempts: 0 });
+    return { code, expiresAt };
+  }
+
+  /**
+   * Check a code. A successful verification consumes it; an expired or
+   * exhausted code is removed from the store.
+   *
+   * The attempt is counted before the code is compared, so concurrent
+   * guesses cannot get past `maxAttempts`.
+   */
+  async verify(key: string, code: string): Promise<OtpVerifyResult> {
+    const record = await this.store.incrementAttempts(key);
+    if (!record) return { ok: false, reason: 'not_found' };
+
+    if (record.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return { ok: false, reason: 'expired' };
+    }
+    if (record.attempts > this.maxAttempts) {
+      await this.store.delete(key);
+      return { ok: false, reason: 'too_many_attempts' };
+    }
+
+    const expected = Buffer.from(record.hash, 'hex');
+    const actual = Buffer.from(this.hash(key, code.trim()), 'hex');
+    if (expected.length === actual.length && crypto.timingSafeEqual(expected, actual)) {
+      await this.store.delete(key);
+      return { ok: true };
+    }
+
+    if (record.attempts >= this.maxAttempts) {
+      await this.store.delete(key);
+      return { ok: false, reason: 'too_many_attempts' };
+    }
+    return { ok: false, reason: 'invalid', attemptsLeft: this.maxAttempts - record.attempts };
+  }
+
+  /** Invalidate the code for `key`, if any. */
+  async revoke(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  private hash(key: string, code: string): string {
+    return crypto.createHmac('sha256', this.secret).update(`${key}:${code}`).digest('hex');
+  }
+}
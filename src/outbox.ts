@@ -0,0 +1,404 @@
+/**
+ * Durable outbox: send payloads are persisted to an {@link OutboxStore}
+ * before they go out and are retried by a worker until they are sent or fail
+ * for good — including after a process restart.
+ *
+ * @module outbox
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { WhatsAppError } from './errors';
+import type { SendResponse } from './types';
+
+// ---------------------------------------------------------------------------
+// Entries and stores
+// ---------------------------------------------------------------------------
+
+/** A persisted send. */
+export interface OutboxEntry {
+  /** Local ID of the entry. */
+  id: string;
+  /** Graph `/messages` request body. */
+  payload: Record<string, unknown>;
+  /** `pending` until sent or given up on. */
+  status: 'pending' | 'sent' | 'failed';
+  /** Delivery attempts made so far. */
+  attempts: number;
+  /** Epoch ms. */
+  createdAt: number;
+  /** Epoch ms of the last change; for a finished entry, when it finished. */
+  updatedAt: number;
+  /** Earliest time (epoch ms) of the next attempt while `pending`. */
+  nextAttemptAt: number;
+  /** Message ID, once sent. */
+  wamid?: string;
+  /** Last failure, if any. */
+  lastError?: { message: string; code?: number };
+}
+
+/**
+ * Interface every outbox store must implement (a database table, Redis, …).
+ * Writes must be durable by the time the returned promise resolves.
+ *
+ * Finished (`sent` / `failed`) entries are kept until the outbox prunes them
+ * after `retainFinishedMs`.
+ */
+export interface OutboxStore {
+  /** Insert or replace an entry. */
+  save(entry: OutboxEntry): Promise<void>;
+  get(id: string): Promise<OutboxEntry | undefined>;
+  /** Remove `sent` and `failed` entries last updated before `before` (epoch ms). */
+  prune(before: number): Promise<void>;
+  /** Up to `limit` `pending` entries with `nextAttemptAt <= now`, oldest first. */
+  due(now: number, limit: number): Promise<OutboxEntry[]>;
+}
+
+/** Process‑local outbox store. Does not survive restarts — use it for tests. */
+export class MemoryOutboxStore implements OutboxStore {
+  /** Insertion order is creation order. */
+  private readonly entries = new Map<string, OutboxEntry>();
+
+  /** @inheritdoc */
+  async save(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  /** @inheritdoc */
+  async prune(before: number): Promise<void> {
+    for (const entry of this.entries.values()) {
+      if (isExpired(entry, before)) this.entries.delete(entry.id);
+    }
+  }
+
+  /** @inheritdoc */
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    const entry = this.entries.get(id);
+    return entry && { ...entry };
+  }
+
+  /** @inheritdoc */
+  async due(now: number, limit: number): Promise<OutboxEntry[]> {
+    return dueEntries(this.entries.values(), now, limit);
+  }
+}
+
+/**
+ * Outbox store backed by an append‑only JSON‑lines file. Every write is
+ * flushed to disk before it resolves; the log is compacted once it holds
+ * mostly superseded or deleted lines. Meant for a single process.
+ */
+export class FileOutboxStore implements OutboxStore {
+  private readonly filePath: string;
+  /** Entries not pruned yet; insertion order is creation order. */
+  private entries?: Map<string, OutboxEntry>;
+  private lines = 0;
+  /** Serialises file access. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /** @inheritdoc */
+  async save(entry: OutboxEntry): Promise<void> {
+    await this.exclusive(async () => {
+      const entries = await this.load();
+      entries.set(entry.id, { ...entry });
+      await this.append(entries, [JSON.stringify(entry)]);
+    });
+  }
+
+  /** @inheritdoc */
+  async prune(before: number): Promise<void> {
+    await this.exclusive(async () => {
+      const entries = await this.load();
+      const lines: string[] = [];
+      for (const entry of entries.values()) {
+        if (!isExpired(entry, before)) continue;
+        entries.delete(entry.id);
+        lines.push(JSON.stringify({ id: entry.id, deleted: true }));
+      }
+      if (lines.length > 0) await this.append(entries, lines);
+    });
+  }
+
+  /** @inheritdoc */
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    return this.exclusive(async () => {
+      const entry = (await this.load()).get(id);
+      return entry && { ...entry };
+    });
+  }
+
+  /** @inheritdoc */
+  async due(now: number, limit: number): Promise<OutboxEntry[]> {
+    return this.exclusive(async () => dueEntries((await this.load()).values(), now, limit));
+  }
+
+  private async append(entries: Map<string, OutboxEntry>, lines: string[]): Promise<void> {
+    const file = await fs.promises.open(this.filePath, 'a');
+    try {
+      await file.appendFile(lines.map((line) => line + '\n').join(''), 'utf-8');
+      await file.datasync();
+    } finally {
+      await file.close();
+    }
+    this.lines += lines.length;
+    if (this.lines > 1_000 && this.lines > entries.size * 2) await this.compact(entries);
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<string, OutboxEntry>> {
+    if (this.entries) return this.entries;
+    const entries = new Map<string, OutboxEntry>();
+    let text = '';
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    }
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as OutboxEntry & { deleted?: true };
+        if (entry.deleted) entries.delete(entry.id);
+        else entries.set(entry.id, entry);
+        this.lines++;
+      } catch {
+        // A line cut short by a crash — everything before it is intact.
+      }
+    }
+    this.entries = entries;
+    return entries;
+  }
+
+  private async compact(entries: Map<string, OutboxEntry>): Promise<void> {
+    const tmp = `${this.filePath}.tmp`;
+    const body = Array.from(entries.values(), (e) => JSON.stringify(e) + '\n').join('');
+    const file = await fs.promises.open(tmp, 'w');
+    try {
+      await file.writeFile(body, 'utf-8');
+      await file.datasync();
+    } finally {
+      await file.close();
+    }
+    await fs.promises.rename(tmp, this.filePath);
+    this.lines = entries.size;
+  }
+}
+
+/** `entries` must iterate oldest first; stops after `limit` matches. */
+function dueEntries(entries: Iterable<OutboxEntry>, now: number, limit: number): OutboxEntry[] {
+  const due: OutboxEntry[] = [];
+  for (const entry of entries) {
+    if (due.length >= limit) break;
+    if (entry.status === 'pending' && entry.nextAttemptAt <= now) due.push({ ...entry });
+  }
+  return due;
+}
+
+function isExpired(entry: OutboxEntry, before: number): boolean {
+  return entry.status !== 'pending' && entry.updatedAt < before;
+}
+
+// ---------------------------------------------------------------------------
+// Worker
+// ---------------------------------------------------------------------------
+
+/** Options for the client's `outbox` config. */
+export interface OutboxOptions {
+  /** Where entries are persisted. */
+  store: OutboxStore;
+  /** Attempts before an entry is marked `failed`. @default 5 */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on every attempt. @default 2_000 */
+  backoffMs?: number;
+  /** Longest delay between attempts. @default 300_000 (5 min) */
+  maxBackoffMs?: number;
+  /** How often the store is checked for due entries. @default 1_000 */
+  pollIntervalMs?: number;
+  /** Entries attempted in parallel per poll. @default 10 */
+  batchSize?: number;
+  /**
+   * How long `sent` and `failed` entries stay in the store — with their
+   * `wamid` or `lastError` — before they are pruned. `Infinity` keeps them.
+   * @default 604_800_000 (7 days)
+   */
+  retainFinishedMs?: number;
+}
+
+/** @internal */
+export interface OutboxHooks {
+  onSent?: (entry: OutboxEntry) => void;
+  onFailed?: (entry: OutboxEntry, error: Error) => void;
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Persists sends and delivers them with retries. Created by the client when
+ * `outbox` is configured and exposed as `client.outbox`.
+ *
+ * Delivery is at‑least‑once: a crash after Graph accepted a message but
+ * before its entry was marked `sent` sends it again on restart.
+ */
+export class Outbox {
+  private readonly store: OutboxStore;
+  private readonly deliver: (payload: Record<string, unknown>) => Promise<SendResponse>;
+  private readonly hooks: OutboxHooks;
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly retainFinishedMs: number;
+  /** Time (epoch ms) of the next prune of finished entries. */
+  private nextPruneAt = 0;
+  /** Entries currently being attempted by this process. */
+  private readonly inFlight = new Set<string>();
+  /** Callers of {@link enqueue} waiting for their entry to finish. */
+  private readonly waiters = new Map<string, { resolve: (r: SendResponse) => void; reject: (e: Error) => void }>();
+  private timer?: ReturnType<typeof setInterval>;
+  private polling?: Promise<void>;
+
+  /** @internal */
+  constructor(
+    opts: OutboxOptions,
+    deliver: (payload: Record<string, unknown>) => Promise<SendResponse>,
+    hooks: OutboxHooks = {},
+  ) {
+    this.store = opts.store;
+    this.deliver = deliver;
+    this.hooks = hooks;
+    this.maxAttempts = opts.maxAttempts ?? 5;
+    this.backoffMs = opts.backoffMs ?? 2_000;
+    this.maxBackoffMs = opts.maxBackoffMs ?? 300_000;
+    this.pollIntervalMs = opts.pollIntervalMs ?? 1_000;
+    this.batchSize = opts.batchSize ?? 10;
+    this.retainFinishedMs = opts.retainFinishedMs ?? 7 * 24 * 60 * 60_000;
+  }
+
+  /**
+   * Persist a payload and attempt it right away.
+   *
+   * @returns Resolves once the entry is sent — after retries if needed — and
+   *   rejects with the last error once it is marked `failed`.
+   */
+  async enqueue(payload: Record<string, unknown>): Promise<SendResponse> {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      payload,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: now,
+    };
+    await this.store.save(entry);
+    const result = new Promise<SendResponse>((resolve, reject) => this.waiters.set(entry.id, { resolve, reject }));
+    void this.attempt(entry);
+    return result;
+  }
+
+  /**
+   * Look up an entry, e.g. to read its `status`, `wamid` or `lastError`.
+   * Finished entries are pruned after `retainFinishedMs`.
+   */
+  get(id: string): Promise<OutboxEntry | undefined> {
+    return this.store.get(id);
+  }
+
+  /** Start polling the store for due entries (pending ones left by a previous run, retries). */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.flush(), this.pollIntervalMs);
+    this.timer.unref?.();
+    void this.flush();
+  }
+
+  /** Stop polling. Attempts already running complete. */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Attempt every due entry now. */
+  flush(): Promise<void> {
+    this.polling ??= (async () => {
+      try {
+        await this.prune();
+        const due = await this.store.due(Date.now(), this.batchSize);
+        await Promise.all(due.filter((e) => !this.inFlight.has(e.id)).map((e) => this.attempt(e)));
+      } catch (err: unknown) {
+        this.hooks.onError?.(err);
+      } finally {
+        this.polling = undefined;
+      }
+    })();
+    return this.polling;
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<void> {
+    if (this.inFlight.has(entry.id)) return;
+    this.inFlight.add(entry.id);
+    try {
+      entry.attempts++;
+      try {
+        const { wamid } = await this.deliver(entry.payload);
+        Object.assign(entry, { status: 'sent', wamid, updatedAt: Date.now() });
+        await this.store.save(entry);
+        this.hooks.onSent?.(entry);
+        this.settle(entry.id, { wamid });
+      } catch (err: unknown) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        entry.lastError = { message: error.message, code: error instanceof WhatsAppError ? error.code : undefined };
+        entry.updatedAt = Date.now();
+        const retryable = error instanceof WhatsAppError && error.isRetryable;
+        if (retryable && entry.attempts < this.maxAttempts) {
+          entry.nextAttemptAt = entry.updatedAt + this.retryDelay(entry.attempts, error);
+          await this.store.save(entry);
+          return;
+        }
+        entry.status = 'failed';
+        await this.store.save(entry);
+        this.hooks.onFailed?.(entry, error);
+        this.settle(entry.id, undefined, error);
+      }
+    } catch (err: unknown) {
+      // The store failed; the entry is retried from its last saved state.
+      this.hooks.onError?.(err);
+    } finally {
+      this.inFlight.delete(entry.id);
+    }
+  }
+
+  /** Drop expired finished entries, at most once a minute. */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    if (this.retainFinishedMs === Infinity || now < this.nextPruneAt) return;
+    this.nextPruneAt = now + Math.min(this.retainFinishedMs, 60_000);
+    await this.store.prune(now - this.retainFinishedMs);
+  }
+
+  private retryDelay(attempts: number, error: WhatsAppError): number {
+    if (error.retryAfter && error.retryAfter > 0) return error.retryAfter * 1_000;
+    return Math.min(this.backoffMs * 2 ** (attempts - 1), this.maxBackoffMs);
+  }
+
+  private settle(id: string, result?: SendResponse, error?: Error): void {
+    const waiter = this.waiters.get(id);
+    if (!waiter) return;
+    this.waiters.delete(id);
+    if (error) waiter.reject(error);
+    else waiter.resolve(result as SendResponse);
+  }
+}
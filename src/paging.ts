@@ -0,0 +1,53 @@
+/**
+ * Cursor pagination shared by the Graph list edges (`message_templates`,
+ * `flows`, `phone_numbers`).
+ *
+ * @module paging
+ * @internal
+ */
+
+import type { HttpClient } from './http';
+import type { GraphPage } from './types';
+
+/**
+ * GET one page of an edge. `limit` and `after` are appended to `query`.
+ *
+ * @internal
+ */
+export async function fetchPage<T>(
+  http: HttpClient,
+  url: string,
+  query: URLSearchParams,
+  opts?: { limit?: number; after?: string },
+): Promise<GraphPage<T>> {
+  if (opts?.limit) query.set('limit', String(opts.limit));
+  if (opts?.after) query.set('after', opts.after);
+  const qs = query.toString();
+
+  const res = await http.request<{
+    data?: T[];
+    paging?: { cursors?: { after?: string }; next?: string };
+  }>(`${url}${qs ? `?${qs}` : ''}`, { method: 'GET' });
+
+  return {
+    data: res?.data ?? [],
+    // Graph keeps returning an `after` cursor on the last page; only `next` means there is more.
+    after: res?.paging?.next ? res.paging.cursors?.after : undefined,
+  };
+}
+
+/**
+ * Yield every item, fetching pages lazily starting at `after`.
+ *
+ * @internal
+ */
+export async function* iteratePages<T>(
+  fetchNext: (after?: string) => Promise<GraphPage<T>>,
+  after?: string,
+): AsyncIterableIterator<T> {
+  do {
+    const page = await fetchNext(after);
+    yield* page.data;
+    after = page.after;
+  } while (after);
+}
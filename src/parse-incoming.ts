@@ -1,11 +1,18 @@
 /**
  * Parse raw WhatsApp Cloud API webhook payloads into strongly‑typed inbound
- * messages and status updates.
+ * messages, status updates and account / template notifications.
  *
  * @module parse-incoming
  */
 
+import { createWhatsAppError } from './errors';
 import type {
+  AccountAlert,
+  AccountEvent,
+  AccountEventBase,
+  AccountReviewUpdate,
+  AccountUpdate,
+  BusinessCapabilityUpdate,
   Contact,
   ContactName,
   ContactPhone,
@@ -15,7 +22,21 @@ import type {
   ContactOrg,
   InboundMessage,
   InboundBase,
+  InboundContext,
+  MessagingLimitTier,
+  PaymentStatusUpdate,
+  PhoneNumberNameUpdate,
+  PhoneNumberQualityUpdate,
   StatusUpdate,
+  TemplateCategory,
+  TemplateCategoryUpdate,
+  TemplateEvent,
+  TemplateEventBase,
+  TemplateQualityScore,
+  TemplateQualityUpdate,
+  TemplateStatusEvent,
+  TemplateStatusUpdate,
+  WebhookChangeValue,
   WebhookPayload,
 } from './types';
 
@@ -37,7 +58,7 @@ export function parseIncoming(body: WebhookPayload): InboundMessage[] {
       const messages = change?.value?.messages;
       if (!Array.isArray(messages)) continue;
       for (const raw of messages) {
-        results.push(parseSingle(raw));
+        results.push({ ...parseSingle(raw), ...changeEnrichment(change.value, String(raw?.from ?? '')) });
       }
     }
   }
@@ -59,7 +80,11 @@ export function parseStatuses(body: WebhookPayload): StatusUpdate[] {
       const statuses = change?.value?.statuses;
       if (!Array.isArray(statuses)) continue;
       for (const raw of statuses) {
-        results.push(parseStatus(raw as Record<string, unknown>));
+        // Payment statuses share the array but have their own shape — see parsePaymentStatuses.
+        if ((raw as Record<string, unknown>)?.type === 'payment') continue;
+        const status = parseStatus(raw as Record<string, unknown>);
+        const { profileName, phoneNumberId, displayPhoneNumber } = changeEnrichment(change.value, status.recipientId);
+        results.push({ ...status, profileName, phoneNumberId, displayPhoneNumber });
       }
     }
   }
@@ -67,6 +92,77 @@ export function parseStatuses(body: WebhookPayload): StatusUpdate[] {
   return results;
 }
 
+/**
+ * Extract payment status updates (for `order_details` checkouts) from a
+ * webhook payload.
+ *
+ * @param body - The raw JSON body received on your webhook endpoint.
+ * @returns An array of parsed payment updates (may be empty).
+ */
+export function parsePaymentStatuses(body: WebhookPayload): PaymentStatusUpdate[] {
+  const results: PaymentStatusUpdate[] = [];
+
+  for (const entry of body?.entry ?? []) {
+    for (const change of entry?.changes ?? []) {
+      const statuses = change?.value?.statuses;
+      if (!Array.isArray(statuses)) continue;
+      for (const raw of statuses) {
+        if ((raw as Record<string, unknown>)?.type !== 'payment') continue;
+        const { phoneNumberId, displayPhoneNumber } = changeEnrichment(change.value, '');
+        results.push({ ...parsePaymentStatus(raw as Record<string, unknown>), phoneNumberId, displayPhoneNumber });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Extract account‑level notifications — quality and messaging limit changes,
+ * account updates and alerts, reviews, capability and display name
+ * decisions — from a webhook payload.
+ *
+ * @param body - The raw JSON body received on your webhook endpoint.
+ * @returns An array of parsed account events (may be empty).
+ */
+export function parseAccountEvents(body: WebhookPayload): AccountEvent[] {
+  return parseFieldEvents(body, ACCOUNT_FIELD_PARSERS);
+}
+
+/**
+ * Extract template lifecycle notifications — status (approval, rejection,
+ * pauses), quality score and category changes — from a webhook payload.
+ *
+ * @param body - The raw JSON body received on your webhook endpoint.
+ * @returns An array of parsed template events (may be empty).
+ */
+export function parseTemplateEvents(body: WebhookPayload): TemplateEvent[] {
+  return parseFieldEvents(body, TEMPLATE_FIELD_PARSERS);
+}
+
+// ---------------------------------------------------------------------------
+// Change‑level enrichment (contacts + metadata)
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the sender profile and receiving business number for a message or
+ * status. Contacts are matched by `wa_id`; when the change carries a single
+ * contact it is used as‑is, since `wa_id` and `from` can differ in format.
+ */
+function changeEnrichment(
+  value: WebhookChangeValue | undefined,
+  waId: string,
+): Pick<InboundBase, 'profileName' | 'waId' | 'phoneNumberId' | 'displayPhoneNumber'> {
+  const contacts = Array.isArray(value?.contacts) ? value.contacts : [];
+  const contact = contacts.find((c) => c?.wa_id === waId) ?? (contacts.length === 1 ? contacts[0] : undefined);
+  return {
+    profileName: optStr(contact?.profile?.name),
+    waId: optStr(contact?.wa_id),
+    phoneNumberId: optStr(value?.metadata?.phone_number_id),
+    displayPhoneNumber: optStr(value?.metadata?.display_phone_number),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Single message parser
 // ---------------------------------------------------------------------------
@@ -76,6 +172,7 @@ function parseSingle(msg: Record<string, unknown>): InboundMessage {
     from: String((msg as Record<string, unknown>).from ?? ''),
     timestamp: Number((msg as Record<string, unknown>).timestamp ?? 0),
     wamid: String((msg as Record<string, unknown>).id ?? ''),
+    context: parseContext(msg.context as Record<string, unknown> | undefined),
   };
 
   const type = String((msg as Record<string, unknown>).type ?? '');
@@ -161,6 +258,16 @@ function parseSingle(msg: Record<string, unknown>): InboundMessage {
         },
       };
 
+    case 'button':
+      return {
+        ...base,
+        type: 'button',
+        button: {
+          payload: String((msg.button as Record<string, unknown>)?.payload ?? ''),
+          text: String((msg.button as Record<string, unknown>)?.text ?? ''),
+        },
+      };
+
     case 'order':
       return {
         ...base,
@@ -249,7 +356,11 @@ function parseInteractiveReply(base: InboundBase, raw: Record<string, unknown>):
     return {
       ...base,
       type: 'flow_reply',
-      flow: { responseJson: json, body: String(nfm?.body ?? '') },
+      flow: {
+        responseJson: json,
+        body: String(nfm?.body ?? ''),
+        flowToken: typeof json.flow_token === 'string' ? json.flow_token : undefined,
+      },
     };
   }
 
@@ -285,6 +396,27 @@ function parseInteractiveReply(base: InboundBase, raw: Record<string, unknown>):
   return { ...base, type: 'unsupported' };
 }
 
+// ---------------------------------------------------------------------------
+// Context helper
+// ---------------------------------------------------------------------------
+
+function parseContext(raw: Record<string, unknown> | undefined): InboundContext | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const product = raw.referred_product as Record<string, unknown> | undefined;
+  return {
+    messageId: optStr(raw.id),
+    from: optStr(raw.from),
+    forwarded: raw.forwarded != null ? Boolean(raw.forwarded) : undefined,
+    frequentlyForwarded: raw.frequently_forwarded != null ? Boolean(raw.frequently_forwarded) : undefined,
+    referredProduct: product
+      ? {
+          catalogId: String(product.catalog_id ?? ''),
+          productRetailerId: String(product.product_retailer_id ?? ''),
+        }
+      : undefined,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Media field helpers
 // ---------------------------------------------------------------------------
@@ -423,12 +555,7 @@ function parseStatus(raw: Record<string, unknown>): StatusUpdate {
     timestamp: Number(raw.timestamp ?? 0),
     status: String(raw.status ?? 'sent') as StatusUpdate['status'],
     errors: Array.isArray(raw.errors)
-      ? (raw.errors as Array<Record<string, unknown>>).map((e) => ({
-          code: Number(e.code ?? 0),
-          title: String(e.title ?? ''),
-          message: optStr(e.message),
-          error_data: e.error_data as Record<string, unknown> | undefined,
-        }))
+      ? (raw.errors as Array<Record<string, unknown>>).map((e) => parseStatusError(e))
       : undefined,
     conversation: raw.conversation
       ? {
@@ -448,6 +575,207 @@ function parseStatus(raw: Record<string, unknown>): StatusUpdate {
   };
 }
 
+function parsePaymentStatus(raw: Record<string, unknown>): PaymentStatusUpdate {
+  const payment = (raw.payment ?? {}) as Record<string, unknown>;
+  const amount = payment.amount as Record<string, unknown> | undefined;
+  const tx = payment.transaction as Record<string, unknown> | undefined;
+  const txError = tx?.error as Record<string, unknown> | undefined;
+  return {
+    id: String(raw.id ?? ''),
+    recipientId: String(raw.recipient_id ?? ''),
+    timestamp: Number(raw.timestamp ?? 0),
+    status: String(raw.status ?? 'pending') as PaymentStatusUpdate['status'],
+    referenceId: String(payment.reference_id ?? ''),
+    amount: amount ? { value: Number(amount.value ?? 0), offset: Number(amount.offset ?? 100) } : undefined,
+    currency: optStr(payment.currency),
+    transaction: tx
+      ? {
+          id: String(tx.id ?? ''),
+          type: String(tx.type ?? ''),
+          status: String(tx.status ?? ''),
+          createdTimestamp: tx.created_timestamp != null ? Number(tx.created_timestamp) : undefined,
+          updatedTimestamp: tx.updated_timestamp != null ? Number(tx.updated_timestamp) : undefined,
+          methodType: optStr((tx.method as Record<string, unknown> | undefined)?.type),
+          error: txError ? { code: String(txError.code ?? ''), reason: String(txError.reason ?? '') } : undefined,
+        }
+      : undefined,
+  };
+}
+
+function parseStatusError(e: Record<string, unknown>): NonNullable<StatusUpdate['errors']>[number] {
+  const code = Number(e.code ?? 0);
+  const title = String(e.title ?? '');
+  const message = optStr(e.message);
+  const errorData = e.error_data as Record<string, unknown> | undefined;
+  return {
+    code,
+    title,
+    message,
+    error_data: errorData,
+    error: createWhatsAppError(`Delivery failed: ${message ?? title}`, 0, e, undefined, {
+      code,
+      message: message ?? title,
+      errorDetails: optStr(errorData?.details),
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Field event parsers (non‑message webhook fields)
+// ---------------------------------------------------------------------------
+
+type FieldParser<T> = (value: Record<string, unknown>, base: AccountEventBase) => T;
+
+/** Run the parser registered for each change's `field`; other fields are skipped. */
+function parseFieldEvents<T>(body: WebhookPayload, parsers: Map<string, FieldParser<T>>): T[] {
+  const results: T[] = [];
+
+  for (const entry of body?.entry ?? []) {
+    const base: AccountEventBase = {
+      wabaId: String(entry?.id ?? ''),
+      timestamp: entry?.time != null ? Number(entry.time) : undefined,
+    };
+    for (const change of entry?.changes ?? []) {
+      const parser = parsers.get(change?.field);
+      if (!parser || !change.value) continue;
+      results.push(parser(change.value as unknown as Record<string, unknown>, base));
+    }
+  }
+
+  return results;
+}
+
+/** Webhook `field` → parser for the account‑level fields. */
+const ACCOUNT_FIELD_PARSERS = new Map<string, FieldParser<AccountEvent>>([
+  ['phone_number_quality_update', parseQualityUpdate],
+  ['account_update', parseAccountUpdate],
+  ['account_alerts', parseAccountAlert],
+  ['account_review_update', parseAccountReview],
+  ['business_capability_update', parseCapabilityUpdate],
+  ['phone_number_name_update', parseNameUpdate],
+]);
+
+function parseQualityUpdate(value: Record<string, unknown>, base: AccountEventBase): PhoneNumberQualityUpdate {
+  return {
+    ...base,
+    type: 'quality',
+    displayPhoneNumber: String(value.display_phone_number ?? ''),
+    event: String(value.event ?? '') as PhoneNumberQualityUpdate['event'],
+    currentLimit: optStr(value.current_limit) as MessagingLimitTier | undefined,
+    oldLimit: optStr(value.old_limit) as MessagingLimitTier | undefined,
+  };
+}
+
+function parseAccountUpdate(value: Record<string, unknown>, base: AccountEventBase): AccountUpdate {
+  const ban = value.ban_info as Record<string, unknown> | undefined;
+  const violation = value.violation_info as Record<string, unknown> | undefined;
+  const banState = Array.isArray(ban?.waba_ban_state) ? ban.waba_ban_state[0] : ban?.waba_ban_state;
+  return {
+    ...base,
+    type: 'update',
+    event: String(value.event ?? '') as AccountUpdate['event'],
+    phoneNumber: optStr(value.phone_number),
+    banInfo: ban
+      ? { state: String(banState ?? '') as NonNullable<AccountUpdate['banInfo']>['state'], date: optStr(ban.waba_ban_date) }
+      : undefined,
+    violationType: optStr(violation?.violation_type),
+    restrictions: Array.isArray(value.restriction_info)
+      ? (value.restriction_info as Array<Record<string, unknown>>).map((r) => ({
+          type: String(r.restriction_type ?? ''),
+          expiration: r.expiration != null ? Number(r.expiration) : undefined,
+        }))
+      : undefined,
+  };
+}
+
+function parseAccountAlert(value: Record<string, unknown>, base: AccountEventBase): AccountAlert {
+  return {
+    ...base,
+    type: 'alert',
+    entityType: String(value.entity_type ?? '') as AccountAlert['entityType'],
+    entityId: String(value.entity_id ?? ''),
+    severity: String(value.alert_severity ?? '') as AccountAlert['severity'],
+    status: String(value.alert_status ?? '') as AccountAlert['status'],
+    alertType: String(value.alert_type ?? ''),
+    description: optStr(value.alert_description),
+  };
+}
+
+function parseAccountReview(value: Record<string, unknown>, base: AccountEventBase): AccountReviewUpdate {
+  return { ...base, type: 'review', decision: String(value.decision ?? '') as AccountReviewUpdate['decision'] };
+}
+
+function parseCapabilityUpdate(value: Record<string, unknown>, base: AccountEventBase): BusinessCapabilityUpdate {
+  return {
+    ...base,
+    type: 'capability',
+    maxDailyConversationsPerPhone: optNum(value.max_daily_conversation_per_phone),
+    maxDailyConversationsPerBusiness: optStr(value.max_daily_conversations_per_business),
+    maxPhoneNumbersPerBusiness: optNum(value.max_phone_numbers_per_business),
+    maxPhoneNumbersPerWaba: optNum(value.max_phone_numbers_per_waba),
+  };
+}
+
+function parseNameUpdate(value: Record<string, unknown>, base: AccountEventBase): PhoneNumberNameUpdate {
+  return {
+    ...base,
+    type: 'name',
+    displayPhoneNumber: String(value.display_phone_number ?? ''),
+    decision: String(value.decision ?? '') as PhoneNumberNameUpdate['decision'],
+    requestedVerifiedName: String(value.requested_verified_name ?? ''),
+    rejectionReason: optStr(value.rejection_reason),
+  };
+}
+
+/** Webhook `field` → parser for the template lifecycle fields. */
+const TEMPLATE_FIELD_PARSERS = new Map<string, FieldParser<TemplateEvent>>([
+  ['message_template_status_update', parseTemplateStatus],
+  ['message_template_quality_update', parseTemplateQuality],
+  ['template_category_update', parseTemplateCategory],
+]);
+
+function templateBase(value: Record<string, unknown>, base: AccountEventBase): TemplateEventBase {
+  return {
+    ...base,
+    templateId: String(value.message_template_id ?? ''),
+    templateName: String(value.message_template_name ?? ''),
+    language: String(value.message_template_language ?? ''),
+  };
+}
+
+function parseTemplateStatus(value: Record<string, unknown>, base: AccountEventBase): TemplateStatusUpdate {
+  const other = value.other_info as Record<string, unknown> | undefined;
+  const disable = value.disable_info as Record<string, unknown> | undefined;
+  const reason = optStr(value.reason);
+  return {
+    ...templateBase(value, base),
+    type: 'status',
+    event: String(value.event ?? '') as TemplateStatusEvent,
+    reason: reason && reason !== 'NONE' ? reason : undefined,
+    otherInfo: other ? { title: String(other.title ?? ''), description: optStr(other.description) } : undefined,
+    disableDate: optStr(disable?.disable_date),
+  };
+}
+
+function parseTemplateQuality(value: Record<string, unknown>, base: AccountEventBase): TemplateQualityUpdate {
+  return {
+    ...templateBase(value, base),
+    type: 'quality',
+    previousQuality: String(value.previous_quality_score ?? 'UNKNOWN') as TemplateQualityScore,
+    newQuality: String(value.new_quality_score ?? 'UNKNOWN') as TemplateQualityScore,
+  };
+}
+
+function parseTemplateCategory(value: Record<string, unknown>, base: AccountEventBase): TemplateCategoryUpdate {
+  return {
+    ...templateBase(value, base),
+    type: 'category',
+    previousCategory: String(value.previous_category ?? '') as TemplateCategory,
+    newCategory: optStr(value.new_category) as TemplateCategory | undefined,
+    correctCategory: optStr(value.correct_category) as TemplateCategory | undefined,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Utility
 // ---------------------------------------------------------------------------
@@ -455,3 +783,7 @@ function parseStatus(raw: Record<string, unknown>): StatusUpdate {
 function optStr(v: unknown): string | undefined {
   return v != null ? String(v) : undefined;
 }
+
+function optNum(v: unknown): number | undefined {
+  return v != null ? Number(v) : undefined;
+}
@@ -0,0 +1,174 @@
+/**
+ * Business phone number management: listing, verification, registration,
+ * two‑step PIN and display name.
+ *
+ * Exposed as `client.phoneNumbers` — not meant to be constructed directly.
+ *
+ * @module phone-numbers
+ */
+
+import { WabaIdNotConfiguredError } from './errors';
+import type { HttpClient } from './http';
+import { fetchPage, iteratePages } from './paging';
+import type {
+  GraphPage,
+  ListPhoneNumbersOptions,
+  PhoneNumber,
+  RegisterPhoneNumberOptions,
+  RequestCodeOptions,
+} from './types';
+
+/** Fields requested for every {@link PhoneNumber}. */
+const PHONE_NUMBER_FIELDS = [
+  'id',
+  'display_phone_number',
+  'verified_name',
+  'quality_rating',
+  'messaging_limit_tier',
+  'name_status',
+  'new_name_status',
+  'code_verification_status',
+  'status',
+  'platform_type',
+  'throughput',
+  'is_official_business_account',
+  'last_onboarded_time',
+].join(',');
+
+/**
+ * Onboard and inspect business phone numbers.
+ *
+ * @example
+ * ```ts
+ * await client.phoneNumbers.requestCode(id, { method: 'SMS' });
+ * await client.phoneNumbers.verifyCode(id, '123456');
+ * await client.phoneNumbers.register(id, '654321');
+ *
+ * for await (const n of client.phoneNumbers.list()) {
+ *   console.log(n.display_phone_number, n.quality_rating, n.messaging_limit_tier);
+ * }
+ * ```
+ */
+export class PhoneNumbersApi {
+  private readonly http: HttpClient;
+  private readonly baseUrl: string;
+  private readonly wabaId?: string;
+
+  /** @internal */
+  constructor(http: HttpClient, baseUrl: string, wabaId?: string) {
+    this.http = http;
+    this.baseUrl = baseUrl;
+    this.wabaId = wabaId;
+  }
+
+  private edgeUrl(): string {
+    if (!this.wabaId) throw new WabaIdNotConfiguredError();
+    return `${this.baseUrl}/${this.wabaId}/phone_numbers`;
+  }
+
+  /**
+   * Iterate over every phone number of the WABA, fetching pages lazily.
+   *
+   * @param opts - Optional page size.
+   */
+  async *list(opts?: ListPhoneNumbersOptions): AsyncIterableIterator<PhoneNumber> {
+    yield* iteratePages((after) => this.listPage({ ...opts, after }), opts?.after);
+  }
+
+  /**
+   * Fetch a single page of phone numbers.
+   *
+   * @param opts - Optional page size and `after` cursor.
+   * @returns The numbers on this page and the cursor for the next one.
+   */
+  async listPage(opts?: ListPhoneNumbersOptions): Promise<GraphPage<PhoneNumber>> {
+    return fetchPage<PhoneNumber>(this.http, this.edgeUrl(), new URLSearchParams({ fields: PHONE_NUMBER_FIELDS }), opts);
+  }
+
+  /**
+   * Fetch a phone number with its quality rating, limit tier and statuses.
+   *
+   * @param phoneNumberId - The phone number ID.
+   */
+  async get(phoneNumberId: string): Promise<PhoneNumber> {
+    return this.http.request<PhoneNumber>(`${this.baseUrl}/${phoneNumberId}?fields=${PHONE_NUMBER_FIELDS}`, {
+      method: 'GET',
+    });
+  }
+
+  /**
+   * Send a verification code to the phone number by SMS or voice call.
+   *
+   * @param phoneNumberId - The phone number ID.
+   * @param opts - Delivery method and language.
+   */
+  async requestCode(phoneNumberId: string, opts?: RequestCodeOptions): Promise<void> {
+    await this.post(`${phoneNumberId}/request_code`, {
+      code_method: opts?.method ?? 'SMS',
+      language: opts?.language ?? 'en_US',
+    });
+  }
+
+  /**
+   * Verify the phone number with the code received after {@link requestCode}.
+   *
+   * @param phoneNumberId - The phone number ID.
+   * @param code - The code, digits only.
+   */
+  async verifyCode(phoneNumberId: string, code: string): Promise<void> {
+    await this.post(`${phoneNumberId}/verify_code`, { code });
+  }
+
+  /**
+   * Register the phone number for Cloud API use.
+   *
+   * @param phoneNumberId - The phone number ID.
+   * @param pin - Six‑digit two‑step verification PIN (sets it if none exists yet).
+   * @param opts - Optional local storage region.
+   */
+  async register(phoneNumberId: string, pin: string, opts?: RegisterPhoneNumberOptions): Promise<void> {
+    await this.post(`${phoneNumberId}/register`, {
+      messaging_product: 'whatsapp',
+      pin,
+      ...(opts?.dataLocalizationRegion ? { data_localization_region: opts.dataLocalizationRegion } : {}),
+    });
+  }
+
+  /**
+   * Deregister the phone number from the Cloud API.
+   *
+   * @param phoneNumberId - The phone number ID.
+   */
+  async deregister(phoneNumberId: string): Promise<void> {
+    await this.post(`${phoneNumberId}/deregister`, {});
+  }
+
+  /**
+   * Set or change the two‑step verification PIN.
+   *
+   * @param phoneNumberId - The phone number ID.
+   * @param pin - New six‑digit PIN.
+   */
+  async setTwoStepPin(phoneNumberId: string, pin: string): Promise<void> {
+    await this.post(phoneNumberId, { pin });
+  }
+
+  /**
+   * Request a new display name. The change goes through review; follow it
+   * with `new_name_status` on {@link get}.
+   *
+   * @param phoneNumberId - The phone number ID.
+   * @param displayName - The requested display name.
+   */
+  async updateDisplayName(phoneNumberId: string, displayName: string): Promise<void> {
+    await this.post(phoneNumberId, { new_display_name: displayName });
+  }
+
+  private async post(path: string, body: Record<string, unknown>): Promise<void> {
+    await this.http.request(`${this.baseUrl}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+}
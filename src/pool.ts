@@ -0,0 +1,320 @@
+/**
+ * Multi‑tenant registry of {@link WhatsAppClient}s that routes webhooks by
+ * the receiving business number.
+ *
+ * @module pool
+ */
+
+import { EventEmitter } from 'events';
+
+import { WhatsAppClient, verifyWebhookSignature } from './client';
+import { TenantConflictError, WhatsAppError } from './errors';
+import type { WebhookEntry, WebhookPayload, WhatsAppClientConfig, WhatsAppEvents } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A registered tenant. */
+export interface PoolTenant {
+  /** ID the tenant was added with. */
+  id: string;
+  /** The tenant's client. */
+  client: WhatsAppClient;
+  /** Effective config (pool defaults merged with the tenant's own). */
+  config: WhatsAppClientConfig;
+}
+
+/** Options for {@link WhatsAppClientPool}. */
+export interface WhatsAppClientPoolOptions {
+  /**
+   * Config shared by every tenant (`apiVersion`, `http`, an `appSecret` when
+   * all numbers belong to the same Meta app, …). Tenant config wins.
+   */
+  defaults?: Partial<WhatsAppClientConfig>;
+  /** Tenants to register up front, keyed by tenant ID. */
+  tenants?: Record<string, WhatsAppClientConfig>;
+}
+
+/**
+ * Events emitted by the pool. Every client event is re‑emitted with the
+ * tenant it came from as an extra argument.
+ */
+export type WhatsAppPoolEvents = {
+  [K in keyof WhatsAppEvents]: (payload: Parameters<WhatsAppEvents[K]>[0], tenant: PoolTenant) => void;
+} & {
+  /** Changes no tenant is registered for (unknown `phone_number_id` or WABA). */
+  unrouted: (payload: WebhookPayload, phoneNumberId: string | undefined) => void;
+  'tenant:added': (tenant: PoolTenant) => void;
+  'tenant:removed': (tenant: PoolTenant) => void;
+};
+
+/** Pool‑level events that are not forwarded from clients. */
+const POOL_EVENTS = new Set<string>(['unrouted', 'tenant:added', 'tenant:removed']);
+
+interface TenantEntry extends PoolTenant {
+  /** Removes the forwarding listeners registered on the client. */
+  detach: Array<() => void>;
+}
+
+// ---------------------------------------------------------------------------
+// Pool
+// ---------------------------------------------------------------------------
+
+/**
+ * Holds one {@link WhatsAppClient} per business number and routes each change
+ * of an incoming webhook to the client whose `phoneNumberId` matches
+ * `value.metadata.phone_number_id`. WABA‑level changes without metadata
+ * (account and template notifications) go to every tenant registered with
+ * that `wabaId`.
+ *
+ * Listen on the tenant's client for per‑number handling, or on the pool to
+ * receive every tenant's events tagged with the tenant.
+ *
+ * @example
+ * ```ts
+ * const pool = new WhatsAppClientPool({ defaults: { appSecret: process.env.APP_SECRET } });
+ * pool.add('acme', { accessToken: acmeToken, phoneNumberId: '1001', wabaId: '9001' });
+ * pool.add('globex', { accessToken: globexToken, phoneNumberId: '1002', storage: globexStorage });
+ *
+ * pool.on('message', async (msg, tenant) => {
+ *   await tenant.client.sendText(msg.from, `Hi from ${tenant.id}`);
+ * });
+ *
+ * app.post('/webhook', express.raw({ type: '*\/*' }), (req, res) => {
+ *   pool.handleWebhook({
+ *     rawBody: req.body,
+ *     signature: req.headers['x-hub-signature-256'] as string,
+ *     body: JSON.parse(req.body),
+ *   });
+ *   res.sendStatus(200);
+ * });
+ * ```
+ */
+export class WhatsAppClientPool {
+  private readonly defaults: Partial<WhatsAppClientConfig>;
+  private readonly emitter = new EventEmitter();
+  private readonly tenantsById = new Map<string, TenantEntry>();
+  private readonly tenantsByPhone = new Map<string, TenantEntry>();
+  /** Client events with at least one pool listener; forwarded from every tenant. */
+  private readonly forwarded = new Set<keyof WhatsAppEvents>();
+
+  constructor(opts: WhatsAppClientPoolOptions = {}) {
+    this.defaults = opts.defaults ?? {};
+    for (const [id, config] of Object.entries(opts.tenants ?? {})) this.add(id, config);
+  }
+
+  // -----------------------------------------------------------------------
+  // Tenants
+  // -----------------------------------------------------------------------
+
+  /**
+   * Register a tenant and create its client.
+   *
+   * @param tenantId - Your identifier for the tenant.
+   * @param config - Client config; merged over the pool `defaults`.
+   * @returns The tenant's client.
+   * @throws {TenantConflictError} If the ID or phone number is already registered.
+   */
+  add(tenantId: string, config: WhatsAppClientConfig): WhatsAppClient {
+    const merged: WhatsAppClientConfig = { ...this.defaults, ...config };
+    if (this.tenantsById.has(tenantId)) {
+      throw new TenantConflictError(tenantId, 'tenant ID already registered');
+    }
+    const existing = this.tenantsByPhone.get(merged.phoneNumberId);
+    if (existing) {
+      throw new TenantConflictError(tenantId, `phone number ${merged.phoneNumberId} belongs to "${existing.id}"`);
+    }
+
+    const entry: TenantEntry = { id: tenantId, client: new WhatsAppClient(merged), config: merged, detach: [] };
+    this.tenantsById.set(tenantId, entry);
+    this.tenantsByPhone.set(merged.phoneNumberId, entry);
+    for (const event of this.forwarded) this.attach(entry, event);
+
+    this.emitPool('tenant:added', this.publicTenant(entry));
+    return entry.client;
+  }
+
+  /**
+   * Unregister a tenant. Its client stops receiving webhooks from the pool,
+   * its events are no longer forwarded and it is closed (see
+   * {@link WhatsAppClient.close}), so queued sends do not go out.
+   *
+   * @returns `true` if the tenant existed.
+   */
+  remove(tenantId: string): boolean {
+    const entry = this.tenantsById.get(tenantId);
+    if (!entry) return false;
+    for (const detach of entry.detach) detach();
+    entry.client.close();
+    this.tenantsById.delete(tenantId);
+    this.tenantsByPhone.delete(entry.config.phoneNumberId);
+    this.emitPool('tenant:removed', this.publicTenant(entry));
+    return true;
+  }
+
+  /** Get a tenant by ID. */
+  get(tenantId: string): PoolTenant | undefined {
+    const entry = this.tenantsById.get(tenantId);
+    return entry && this.publicTenant(entry);
+  }
+
+  /** Get the tenant that owns a business phone‑number ID. */
+  getByPhoneNumberId(phoneNumberId: string): PoolTenant | undefined {
+    const entry = this.tenantsByPhone.get(phoneNumberId);
+    return entry && this.publicTenant(entry);
+  }
+
+  /** All registered tenants, in registration order. */
+  tenants(): PoolTenant[] {
+    return [...this.tenantsById.values()].map((e) => this.publicTenant(e));
+  }
+
+  /** Number of registered tenants. */
+  get size(): number {
+    return this.tenantsById.size;
+  }
+
+  // -----------------------------------------------------------------------
+  // Webhooks
+  // -----------------------------------------------------------------------
+
+  /**
+   * Split a webhook payload by tenant and hand each part to that tenant's
+   * `client.handleWebhook`. Changes nobody is registered for are emitted as
+   * `unrouted`.
+   *
+   * The signature is checked once per receiving tenant with its `appSecret`
+   * before anything is dispatched. Unrouted changes are only emitted when the
+   * signature matches the default `appSecret` or a tenant's; they are dropped
+   * otherwise.
+   *
+   * @throws {WhatsAppError} 401 if the signature does not match a receiving tenant's `appSecret`.
+   */
+  handleWebhook(input: { rawBody: Buffer | string; signature?: string; body: WebhookPayload }): void {
+    const routed = new Map<TenantEntry, WebhookEntry[]>();
+    const unrouted = new Map<string | undefined, WebhookEntry[]>();
+
+    for (const entry of input.body?.entry ?? []) {
+      for (const change of entry?.changes ?? []) {
+        const phoneNumberId = change?.value?.metadata?.phone_number_id;
+        const tenants = this.receivers(phoneNumberId, entry.id);
+        for (const tenant of tenants) appendChange(routed, tenant, entry, change);
+        if (tenants.length === 0) appendChange(unrouted, phoneNumberId, entry, change);
+      }
+    }
+
+    for (const tenant of routed.keys()) {
+      const secret = tenant.config.appSecret;
+      if (secret && input.signature && !verifyWebhookSignature(input.rawBody, input.signature, secret)) {
+        const err = new WhatsAppError(`Invalid webhook signature for tenant "${tenant.id}"`, 401);
+        this.emitPool('error', err, this.publicTenant(tenant));
+        throw err;
+      }
+    }
+
+    for (const [tenant, entries] of routed) {
+      // Already verified above; the client would otherwise check it again.
+      tenant.client.handleWebhook({ rawBody: input.rawBody, body: { object: input.body.object, entry: entries } });
+    }
+    if (unrouted.size > 0 && !this.verifyUnrouted(input.rawBody, input.signature)) return;
+    for (const [phoneNumberId, entries] of unrouted) {
+      this.emitPool('unrouted', { object: input.body.object, entry: entries }, phoneNumberId);
+    }
+  }
+
+  /** `true` when no secret is configured or one of the pool's secrets matches the signature. */
+  private verifyUnrouted(rawBody: Buffer | string, signature?: string): boolean {
+    if (!signature) return true;
+    const secrets = new Set<string>();
+    if (this.defaults.appSecret) secrets.add(this.defaults.appSecret);
+    for (const tenant of this.tenantsById.values()) {
+      if (tenant.config.appSecret) secrets.add(tenant.config.appSecret);
+    }
+    if (secrets.size === 0) return true;
+    for (const secret of secrets) {
+      if (verifyWebhookSignature(rawBody, signature, secret)) return true;
+    }
+    return false;
+  }
+
+  // -----------------------------------------------------------------------
+  // Events
+  // -----------------------------------------------------------------------
+
+  /**
+   * Register a listener. Client events (`'message'`, `'status'`,
+   * `'account:quality'`, …) receive the tenant as their last argument.
+   */
+  on<K extends keyof WhatsAppPoolEvents>(event: K, listener: WhatsAppPoolEvents[K]): this {
+    this.forward(event);
+    this.emitter.on(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /** Register a one‑shot listener. */
+  once<K extends keyof WhatsAppPoolEvents>(event: K, listener: WhatsAppPoolEvents[K]): this {
+    this.forward(event);
+    this.emitter.once(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /** Remove a listener. */
+  off<K extends keyof WhatsAppPoolEvents>(event: K, listener: WhatsAppPoolEvents[K]): this {
+    this.emitter.off(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /** Remove all listeners for a given event (or all events). */
+  removeAllListeners(event?: keyof WhatsAppPoolEvents): this {
+    this.emitter.removeAllListeners(event);
+    return this;
+  }
+
+  /** Start forwarding a client event from every tenant (once per event name). */
+  private forward(event: keyof WhatsAppPoolEvents): void {
+    if (POOL_EVENTS.has(event) || this.forwarded.has(event as keyof WhatsAppEvents)) return;
+    this.forwarded.add(event as keyof WhatsAppEvents);
+    for (const entry of this.tenantsById.values()) this.attach(entry, event as keyof WhatsAppEvents);
+  }
+
+  private attach(entry: TenantEntry, event: keyof WhatsAppEvents): void {
+    const tenant = this.publicTenant(entry);
+    const listener = (payload: unknown): void => this.emitPool(event, payload, tenant);
+    entry.client.on(event, listener as WhatsAppEvents[typeof event]);
+    entry.detach.push(() => entry.client.off(event, listener as WhatsAppEvents[typeof event]));
+  }
+
+  /** Emit only when someone listens, so a forwarded `error` never throws. */
+  private emitPool(event: string, ...args: unknown[]): void {
+    if (this.emitter.listenerCount(event) > 0) this.emitter.emit(event, ...args);
+  }
+
+  /** The owner of `phoneNumberId`, or every tenant of the WABA for a change without one. */
+  private receivers(phoneNumberId: string | undefined, wabaId: string | undefined): TenantEntry[] {
+    if (phoneNumberId) {
+      const tenant = this.tenantsByPhone.get(phoneNumberId);
+      return tenant ? [tenant] : [];
+    }
+    if (!wabaId) return [];
+    return [...this.tenantsById.values()].filter((entry) => entry.config.wabaId === wabaId);
+  }
+
+  private publicTenant(entry: TenantEntry): PoolTenant {
+    return { id: entry.id, client: entry.client, config: entry.config };
+  }
+}
+
+/** Add a change to `groups[key]`, keeping it under an entry with the same `id` / `time`. */
+function appendChange<K>(
+  groups: Map<K, WebhookEntry[]>,
+  key: K,
+  entry: WebhookEntry,
+  change: WebhookEntry['changes'][number],
+): void {
+  let entries = groups.get(key);
+  if (!entries) groups.set(key, (entries = []));
+  let target = entries.find((e) => e.id === entry.id && e.time === entry.time);
+  if (!target) entries.push((target = { ...entry, changes: [] }));
+  target.changes.push(change);
+}
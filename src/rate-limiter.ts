@@ -0,0 +1,191 @@
+/**
+ * Client‑side outbound scheduling: a token bucket per business number
+ * (throughput) and a minimum gap per recipient (pair rate limit, 131056).
+ *
+ * @module rate-limiter
+ */
+
+import { SendCancelledError } from './errors';
+import type { RateLimiterMetrics, RateLimitOptions } from './types';
+
+const DEFAULT_MESSAGES_PER_SECOND = 80;
+const DEFAULT_PER_RECIPIENT_INTERVAL_MS = 6_000;
+
+interface Job {
+  recipient: string;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/** Scheduling state for one business number. */
+interface Lane {
+  queue: Job[];
+  tokens: number;
+  refilledAt: number;
+  /** Recipient → earliest time (epoch ms) the next message may go out. */
+  readyAt: Map<string, number>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Queues sends so they go out within the configured limits. Recipients are
+ * paced independently: a recipient waiting for its interval does not hold up
+ * messages to others, while each recipient's messages keep their order.
+ *
+ * Created by the client when `rateLimit` is set and exposed as
+ * `client.rateLimiter`. Construct one yourself to share it between clients
+ * (e.g. several clients sending from the same number).
+ *
+ * @example
+ * ```ts
+ * const client = new WhatsAppClient({ ...config, rateLimit: { messagesPerSecond: 250 } });
+ * await Promise.all(customers.map((c) => client.sendText(c.phone, 'Hi!')));
+ *
+ * client.rateLimiter?.metrics();             // { queued, phoneNumbers: { … } }
+ * client.rateLimiter?.cancel({ recipient }); // queued sends reject with SendCancelledError
+ * client.rateLimiter?.close();               // on shutdown
+ * ```
+ */
+export class RateLimiter {
+  private readonly messagesPerSecond: number;
+  private readonly burst: number;
+  private readonly perRecipientIntervalMs: number;
+  private readonly lanes = new Map<string, Lane>();
+  private closed = false;
+
+  constructor(opts: RateLimitOptions = {}) {
+    this.messagesPerSecond = opts.messagesPerSecond ?? DEFAULT_MESSAGES_PER_SECOND;
+    this.burst = Math.max(1, opts.burst ?? this.messagesPerSecond);
+    this.perRecipientIntervalMs = opts.perRecipientIntervalMs ?? DEFAULT_PER_RECIPIENT_INTERVAL_MS;
+  }
+
+  /**
+   * Run `task` once the business number has capacity and the recipient's
+   * interval has passed.
+   *
+   * @param phoneNumberId - Business number the message is sent from.
+   * @param recipient - Normalised recipient (`wa_id`).
+   * @param task - Performs the send.
+   * @returns What `task` resolves with.
+   */
+  schedule<T>(phoneNumberId: string, recipient: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (this.closed) {
+        reject(new SendCancelledError(phoneNumberId, recipient));
+        return;
+      }
+      const lane = this.lane(phoneNumberId);
+      lane.queue.push({ recipient, run: task, resolve: resolve as (value: unknown) => void, reject });
+      this.pump(lane);
+    });
+  }
+
+  /**
+   * Remove queued sends. Sends already handed to the transport are not
+   * affected.
+   *
+   * @param filter - Limit to a business number and/or recipient; all queued sends when omitted.
+   * @returns How many sends were cancelled. Each rejects with {@link SendCancelledError}.
+   */
+  cancel(filter: { phoneNumberId?: string; recipient?: string } = {}): number {
+    let cancelled = 0;
+    for (const [phoneNumberId, lane] of this.lanes) {
+      if (filter.phoneNumberId !== undefined && filter.phoneNumberId !== phoneNumberId) continue;
+      const kept: Job[] = [];
+      for (const job of lane.queue) {
+        if (filter.recipient !== undefined && filter.recipient !== job.recipient) {
+          kept.push(job);
+          continue;
+        }
+        job.reject(new SendCancelledError(phoneNumberId, job.recipient));
+        cancelled++;
+      }
+      lane.queue = kept;
+      this.pump(lane);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Shut the limiter down: every queued send and every later
+   * {@link schedule} call rejects with {@link SendCancelledError}. Sends
+   * already handed to the transport are not affected.
+   */
+  close(): void {
+    this.closed = true;
+    this.cancel();
+    this.lanes.clear();
+  }
+
+  /** Current queue depth and bucket state. */
+  metrics(): RateLimiterMetrics {
+    const metrics: RateLimiterMetrics = { queued: 0, phoneNumbers: {} };
+    const now = Date.now();
+    for (const [phoneNumberId, lane] of this.lanes) {
+      this.refill(lane, now);
+      metrics.queued += lane.queue.length;
+      metrics.phoneNumbers[phoneNumberId] = {
+        queued: lane.queue.length,
+        recipients: new Set(lane.queue.map((j) => j.recipient)).size,
+        availableTokens: Math.floor(lane.tokens),
+      };
+    }
+    return metrics;
+  }
+
+  private lane(phoneNumberId: string): Lane {
+    let lane = this.lanes.get(phoneNumberId);
+    if (!lane) {
+      lane = { queue: [], tokens: this.burst, refilledAt: Date.now(), readyAt: new Map() };
+      this.lanes.set(phoneNumberId, lane);
+    }
+    return lane;
+  }
+
+  /** Send every job that may go out now, then wake up when the next one can. */
+  private pump(lane: Lane): void {
+    if (lane.timer) {
+      clearTimeout(lane.timer);
+      lane.timer = undefined;
+    }
+    const now = Date.now();
+    this.refill(lane, now);
+
+    let wait = Infinity;
+    const blocked = new Set<string>();
+    for (let i = 0; i < lane.queue.length && lane.tokens >= 1;) {
+      const job = lane.queue[i];
+      const readyAt = lane.readyAt.get(job.recipient) ?? 0;
+      if (blocked.has(job.recipient) || readyAt > now) {
+        // Later messages to this recipient must not overtake this one.
+        blocked.add(job.recipient);
+        wait = Math.min(wait, readyAt - now);
+        i++;
+        continue;
+      }
+      lane.queue.splice(i, 1);
+      lane.tokens -= 1;
+      if (this.perRecipientIntervalMs > 0) lane.readyAt.set(job.recipient, now + this.perRecipientIntervalMs);
+      void Promise.resolve().then(job.run).then(job.resolve, job.reject);
+    }
+
+    if (lane.queue.length === 0) {
+      for (const [recipient, readyAt] of lane.readyAt) {
+        if (readyAt <= now) lane.readyAt.delete(recipient);
+      }
+      return;
+    }
+    if (lane.tokens < 1) {
+      wait = Math.min(wait, Math.ceil(((1 - lane.tokens) * 1_000) / this.messagesPerSecond));
+    }
+    lane.timer = setTimeout(() => this.pump(lane), Math.max(wait, 1));
+    lane.timer.unref?.();
+  }
+
+  private refill(lane: Lane, now: number): void {
+    const elapsed = now - lane.refilledAt;
+    lane.tokens = Math.min(this.burst, lane.tokens + (elapsed * this.messagesPerSecond) / 1_000);
+    lane.refilledAt = now;
+  }
+}
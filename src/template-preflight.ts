@@ -0,0 +1,239 @@
+/**
+ * Local validation of `sendTemplate` components against the template
+ * definition fetched from the management API, so mismatches fail before any
+ * message is sent instead of as a delivery failure minutes later.
+ *
+ * @module template-preflight
+ * @internal
+ */
+
+import { TemplateValidationError } from './errors';
+import type { TemplatesApi } from './templates';
+import type {
+  MessageTemplate,
+  TemplateButtonDefinition,
+  TemplateComponent,
+  TemplateComponentDefinition,
+  TemplateParameter,
+} from './types';
+
+/** Default time a fetched definition is reused. */
+const DEFAULT_CACHE_TTL_MS = 10 * 60_000;
+
+/** Matches `{{1}}` and `{{first_name}}` placeholders. */
+const PLACEHOLDER_RE = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Accepted `sub_type` values for each button type that takes a parameter. */
+const BUTTON_SUB_TYPES: Partial<Record<TemplateButtonDefinition['type'], string[]>> = {
+  QUICK_REPLY: ['quick_reply'],
+  URL: ['url'],
+  OTP: ['url'],
+  COPY_CODE: ['copy_code'],
+  FLOW: ['flow'],
+  CATALOG: ['catalog'],
+  MPM: ['mpm'],
+};
+
+/**
+ * Fetches and caches template definitions, then validates components against them.
+ *
+ * @internal
+ */
+export class TemplatePreflight {
+  private readonly templates: TemplatesApi;
+  private readonly ttlMs: number;
+  private readonly cache = new Map<string, { expiresAt: number; variants: Promise<MessageTemplate[]> }>();
+
+  constructor(templates: TemplatesApi, ttlMs = DEFAULT_CACHE_TTL_MS) {
+    this.templates = templates;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Validate the components for a send.
+   *
+   * @throws {TemplateValidationError} describing every mismatch found.
+   */
+  async check(name: string, language: string, components: TemplateComponent[]): Promise<void> {
+    const variants = await this.definitions(name);
+    if (variants.length === 0) {
+      throw new TemplateValidationError(name, language, [`no template named "${name}" exists`]);
+    }
+    const template = variants.find((t) => t.language === language);
+    if (!template) {
+      const available = variants.map((t) => t.language).join(', ');
+      throw new TemplateValidationError(name, language, [`no "${language}" translation (available: ${available})`]);
+    }
+    const issues = validateTemplateComponents(template, components);
+    if (issues.length) throw new TemplateValidationError(name, language, issues);
+  }
+
+  /** Drop cached definitions (all, or those for one template name). */
+  clear(name?: string): void {
+    if (name) this.cache.delete(name);
+    else this.cache.clear();
+  }
+
+  private definitions(name: string): Promise<MessageTemplate[]> {
+    const hit = this.cache.get(name);
+    if (hit && hit.expiresAt > Date.now()) return hit.variants;
+
+    const variants = (async () => {
+      const found: MessageTemplate[] = [];
+      // `name` is a partial‑match filter on the API side.
+      for await (const t of this.templates.list({ name })) {
+        if (t.name === name) found.push(t);
+      }
+      return found;
+    })();
+    this.cache.set(name, { expiresAt: Date.now() + this.ttlMs, variants });
+    // Never cache a failed lookup.
+    variants.catch(() => this.cache.delete(name));
+    return variants;
+  }
+}
+
+/**
+ * Compare send‑time components with a template definition.
+ *
+ * @returns A list of human‑readable issues (empty when everything matches).
+ * @internal
+ */
+export function validateTemplateComponents(template: MessageTemplate, components: TemplateComponent[]): string[] {
+  const issues: string[] = [];
+  const named = template.parameter_format === 'NAMED';
+  validateSection(issues, '', template.components, components, named);
+
+  // Limited‑time offer
+  const lto = template.components.find((c) => c.type === 'LIMITED_TIME_OFFER');
+  const suppliedLto = components.find((c) => c.type === 'limited_time_offer');
+  if (lto?.limited_time_offer.has_expiration && !suppliedLto) {
+    issues.push('limited_time_offer: template has an expiration but none was supplied');
+  } else if (!lto && suppliedLto) {
+    issues.push('limited_time_offer: template is not a limited‑time offer');
+  }
+
+  // Carousel
+  const carousel = template.components.find((c) => c.type === 'CAROUSEL');
+  const suppliedCarousel = components.find((c) => c.type === 'carousel');
+  if (carousel) {
+    const cardCount = carousel.cards.length;
+    if (!suppliedCarousel) {
+      issues.push(`carousel: expects ${cardCount} card(s) but none were supplied`);
+    } else {
+      if (suppliedCarousel.cards.length !== cardCount) {
+        issues.push(`carousel: expects ${cardCount} card(s) but got ${suppliedCarousel.cards.length}`);
+      }
+      for (const card of suppliedCarousel.cards) {
+        const def = carousel.cards[card.card_index];
+        if (!def) {
+          issues.push(`card ${card.card_index}: template has only ${cardCount} card(s)`);
+          continue;
+        }
+        validateSection(issues, `card ${card.card_index} `, def.components, card.components, named);
+      }
+    }
+  } else if (suppliedCarousel) {
+    issues.push('carousel: template has no carousel');
+  }
+
+  return issues;
+}
+
+/** Validate header, body and buttons of a template or of a single carousel card. */
+function validateSection(
+  issues: string[],
+  prefix: string,
+  defs: TemplateComponentDefinition[],
+  components: TemplateComponent[],
+  named: boolean,
+): void {
+  const header = defs.find((c) => c.type === 'HEADER');
+  const body = defs.find((c) => c.type === 'BODY');
+  const buttons = defs.find((c) => c.type === 'BUTTONS')?.buttons ?? [];
+
+  const suppliedHeader = components.find((c) => c.type === 'header');
+  const suppliedBody = components.find((c) => c.type === 'body');
+
+  // Header
+  if (header) {
+    if (header.format === 'TEXT') {
+      checkParams(issues, `${prefix}header`, header.text, suppliedHeader?.parameters ?? [], named);
+    } else {
+      const expected = header.format.toLowerCase();
+      const param = suppliedHeader?.parameters[0];
+      if (!param) {
+        issues.push(`${prefix}header: expects a parameter of type "${expected}" but none was supplied`);
+      } else if (param.type !== expected) {
+        issues.push(`${prefix}header: expects a parameter of type "${expected}" but got "${param.type}"`);
+      }
+    }
+  } else if (suppliedHeader) {
+    issues.push(`${prefix}header: template has no header but header parameters were supplied`);
+  }
+
+  // Body
+  checkParams(issues, `${prefix}body`, body?.text, suppliedBody?.parameters ?? [], named);
+
+  // Buttons
+  const suppliedIndexes = new Set<number>();
+  for (const comp of components.filter((c) => c.type === 'button')) {
+    const index = Number(comp.index);
+    const def = buttons[index];
+    if (comp.index === undefined || comp.index === '' || !Number.isInteger(index)) {
+      issues.push(`${prefix}button: missing or invalid index "${comp.index ?? ''}"`);
+      continue;
+    }
+    suppliedIndexes.add(index);
+    if (!def) {
+      issues.push(`${prefix}button ${index}: template has only ${buttons.length} button(s)`);
+      continue;
+    }
+    const subTypes = BUTTON_SUB_TYPES[def.type];
+    if (!subTypes || (def.type === 'URL' && countPlaceholders(def.url) === 0)) {
+      issues.push(`${prefix}button ${index}: ${def.type} button takes no parameters`);
+    } else if (comp.sub_type && !subTypes.includes(comp.sub_type.toLowerCase())) {
+      issues.push(
+        `${prefix}button ${index}: sub_type "${comp.sub_type}" does not match ${def.type} button (expected ${subTypes.join(' | ')})`,
+      );
+    }
+  }
+  buttons.forEach((def, index) => {
+    const required =
+      (def.type === 'URL' && countPlaceholders(def.url) > 0) || def.type === 'OTP' || def.type === 'COPY_CODE';
+    if (required && !suppliedIndexes.has(index)) {
+      issues.push(`${prefix}button ${index}: ${def.type} button requires a parameter but none was supplied`);
+    }
+  });
+}
+
+/** Compare placeholders in `text` with the supplied parameters — by name for NAMED templates, by count otherwise. */
+function checkParams(
+  issues: string[],
+  label: string,
+  text: string | undefined,
+  params: TemplateParameter[],
+  named: boolean,
+): void {
+  const placeholders = placeholderNames(text);
+  if (!named) {
+    if (placeholders.length !== params.length) {
+      issues.push(`${label}: expects ${placeholders.length} parameter(s) but got ${params.length}`);
+    }
+    return;
+  }
+  const supplied = params.map((p) => ('parameter_name' in p ? p.parameter_name : undefined));
+  const missing = placeholders.filter((n) => !supplied.includes(n));
+  const unexpected = supplied.filter((n) => n === undefined || !placeholders.includes(n)).map((n) => n ?? '(unnamed)');
+  if (missing.length) issues.push(`${label}: missing named parameter(s) ${missing.join(', ')}`);
+  if (unexpected.length) issues.push(`${label}: unexpected parameter(s) ${unexpected.join(', ')}`);
+}
+
+function placeholderNames(text: string | undefined): string[] {
+  if (!text) return [];
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_RE), (m) => m[1])));
+}
+
+function countPlaceholders(text: string | undefined): number {
+  return placeholderNames(text).length;
+}
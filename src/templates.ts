@@ -0,0 +1,120 @@
+/**
+ * Message template management against the WABA `message_templates` edge.
+ *
+ * Exposed as `client.templates` — not meant to be constructed directly.
+ *
+ * @module templates
+ */
+
+import { WabaIdNotConfiguredError } from './errors';
+import type { HttpClient } from './http';
+import { fetchPage, iteratePages } from './paging';
+import type {
+  CreateTemplateInput,
+  CreateTemplateResult,
+  GraphPage,
+  ListTemplatesOptions,
+  MessageTemplate,
+  UpdateTemplateInput,
+} from './types';
+
+/**
+ * Create, list, edit and delete message templates.
+ *
+ * @example
+ * ```ts
+ * for await (const tpl of client.templates.list({ status: 'APPROVED' })) {
+ *   console.log(tpl.name, tpl.language);
+ * }
+ * ```
+ */
+export class TemplatesApi {
+  private readonly http: HttpClient;
+  private readonly baseUrl: string;
+  private readonly wabaId?: string;
+
+  /** @internal */
+  constructor(http: HttpClient, baseUrl: string, wabaId?: string) {
+    this.http = http;
+    this.baseUrl = baseUrl;
+    this.wabaId = wabaId;
+  }
+
+  private edgeUrl(): string {
+    if (!this.wabaId) throw new WabaIdNotConfiguredError();
+    return `${this.baseUrl}/${this.wabaId}/message_templates`;
+  }
+
+  /**
+   * Iterate over every template matching the filters, fetching pages lazily.
+   *
+   * @param opts - Optional filters and page size.
+   */
+  async *list(opts?: ListTemplatesOptions): AsyncIterableIterator<MessageTemplate> {
+    yield* iteratePages((after) => this.listPage({ ...opts, after }), opts?.after);
+  }
+
+  /**
+   * Fetch a single page of templates.
+   *
+   * @param opts - Optional filters, page size and `after` cursor.
+   * @returns The templates on this page and the cursor for the next one.
+   */
+  async listPage(opts?: ListTemplatesOptions): Promise<GraphPage<MessageTemplate>> {
+    const query = new URLSearchParams();
+    if (opts?.name) query.set('name', opts.name);
+    if (opts?.status) query.set('status', opts.status);
+    if (opts?.category) query.set('category', opts.category);
+    if (opts?.language) query.set('language', opts.language);
+    return fetchPage<MessageTemplate>(this.http, this.edgeUrl(), query, opts);
+  }
+
+  /**
+   * Fetch a template by its ID.
+   *
+   * @param templateId - The template ID (not the name).
+   */
+  async get(templateId: string): Promise<MessageTemplate> {
+    return this.http.request<MessageTemplate>(`${this.baseUrl}/${templateId}`, { method: 'GET' });
+  }
+
+  /**
+   * Submit a new template for review.
+   *
+   * @param input - Name, language, category and component definitions.
+   * @returns The new template ID with its initial status and category.
+   */
+  async create(input: CreateTemplateInput): Promise<CreateTemplateResult> {
+    return this.http.request<CreateTemplateResult>(this.edgeUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+  }
+
+  /**
+   * Edit an existing template. Edited templates go back to review.
+   *
+   * @param templateId - The template ID.
+   * @param patch - The fields to change.
+   */
+  async update(templateId: string, patch: UpdateTemplateInput): Promise<void> {
+    await this.http.request(`${this.baseUrl}/${templateId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    });
+  }
+
+  /**
+   * Delete a template. Without `templateId` every language of `name` is deleted.
+   *
+   * @param name - Template name.
+   * @param templateId - Optional ID to delete a single language version.
+   */
+  async delete(name: string, templateId?: string): Promise<void> {
+    const query = new URLSearchParams({ name });
+    if (templateId) query.set('hsm_id', templateId);
+    await this.http.request(`${this.edgeUrl()}?${query.toString()}`, { method: 'DELETE' });
+  }
+}
@@ -8,6 +8,9 @@
  * @module testing
  */
 
+import { Broadcast, type BroadcastMessageFactory, type BroadcastOptions } from '../broadcast';
+import { validateFlowJson } from '../flow-json';
+import { buildOrderDetails, buildOrderStatus } from '../orders';
 import type {
   SendResponse,
   SendTextOptions,
@@ -19,14 +22,44 @@ import type {
   SendStickerOptions,
   Location,
   SendTemplateOptions,
+  SendOtpOptions,
   Contact,
   Interactive,
   SendInteractiveOptions,
+  OrderDetailsInput,
+  OrderStatusInput,
+  SendFlowInput,
   UploadMediaResult,
   MediaUrlResult,
   WebhookPayload,
   InboundMessageType,
+  MessageTemplate,
+  ListTemplatesOptions,
+  GraphPage,
+  CreateTemplateInput,
+  CreateTemplateResult,
+  UpdateTemplateInput,
+  Flow,
+  FlowJson,
+  FlowPreview,
+  FlowValidationIssue,
+  ListFlowsOptions,
+  CreateFlowInput,
+  CreateFlowResult,
+  UpdateFlowInput,
+  UploadFlowJsonResult,
+  BusinessProfile,
+  BusinessProfileField,
+  UpdateBusinessProfileInput,
+  UploadSource,
+  ResumableUploadOptions,
+  ResumableUploadResult,
+  PhoneNumber,
+  ListPhoneNumbersOptions,
+  RequestCodeOptions,
+  RegisterPhoneNumberOptions,
 } from '../types';
+import { validateInteractive } from '../validate-interactive';
 
 // ---------------------------------------------------------------------------
 // Call recording
@@ -67,6 +100,21 @@ export class MockWhatsAppClient {
   /** Optional override for the wamid returned by send methods. */
   nextWamidOverride?: string;
 
+  /** Mock of `client.templates`, backed by an in‑memory list. */
+  readonly templates = new MockTemplatesApi(this.calls);
+
+  /** Mock of `client.flows`, backed by an in‑memory list. */
+  readonly flows = new MockFlowsApi(this.calls);
+
+  /** Mock of `client.uploads`; returns fake handles without reading the file. */
+  readonly uploads = new MockUploadsApi(this.calls);
+
+  /** Mock of `client.phoneNumbers`, backed by an in‑memory list. */
+  readonly phoneNumbers = new MockPhoneNumbersApi(this.calls);
+
+  /** Profile returned by `getBusinessProfile`; `updateBusinessProfile` merges into it. */
+  businessProfile: BusinessProfile = {};
+
   private record(method: string, args: unknown[]): SendResponse {
     const id = this.nextWamidOverride ?? wamid();
     this.nextWamidOverride = undefined;
@@ -77,6 +125,10 @@ export class MockWhatsAppClient {
   /** Reset recorded calls and counters. */
   reset(): void {
     this.calls.length = 0;
+    this.templates.store.length = 0;
+    this.flows.store.length = 0;
+    this.phoneNumbers.store.length = 0;
+    this.businessProfile = {};
     nextWamid = 1;
   }
 
@@ -132,6 +184,16 @@ export class MockWhatsAppClient {
     return this.record('sendTemplate', [to, templateName, opts]);
   }
 
+  /** @see WhatsAppClient.sendOtp */
+  async sendOtp(to: string, templateName: string, code: string, opts?: SendOtpOptions): Promise<SendResponse> {
+    return this.record('sendOtp', [to, templateName, code, opts]);
+  }
+
+  /** @see WhatsAppClient.clearTemplateCache */
+  clearTemplateCache(templateName?: string): void {
+    this.calls.push({ method: 'clearTemplateCache', args: [templateName], timestamp: Date.now() });
+  }
+
   /** @see WhatsAppClient.sendReaction */
   async sendReaction(to: string, messageId: string, emoji: string): Promise<SendResponse> {
     return this.record('sendReaction', [to, messageId, emoji]);
@@ -142,16 +204,69 @@ export class MockWhatsAppClient {
     return this.record('sendContacts', [to, contacts]);
   }
 
-  /** @see WhatsAppClient.sendInteractive */
+  /** @see WhatsAppClient.sendInteractive — applies the same local validation. */
   async sendInteractive(to: string, interactive: Interactive, opts?: SendInteractiveOptions): Promise<SendResponse> {
+    validateInteractive(interactive);
     return this.record('sendInteractive', [to, interactive, opts]);
   }
 
+  /** @see WhatsAppClient.sendFlow */
+  async sendFlow<TData extends Record<string, unknown>>(
+    to: string,
+    flow: SendFlowInput<TData>,
+    opts?: SendInteractiveOptions,
+  ): Promise<SendResponse> {
+    return this.record('sendFlow', [to, flow, opts]);
+  }
+
+  /** @see WhatsAppClient.sendOrderDetails */
+  async sendOrderDetails(to: string, order: OrderDetailsInput, opts?: SendInteractiveOptions): Promise<SendResponse> {
+    validateInteractive(buildOrderDetails(order));
+    return this.record('sendOrderDetails', [to, order, opts]);
+  }
+
+  /** @see WhatsAppClient.sendOrderStatus */
+  async sendOrderStatus(to: string, update: OrderStatusInput, opts?: SendInteractiveOptions): Promise<SendResponse> {
+    validateInteractive(buildOrderStatus(update));
+    return this.record('sendOrderStatus', [to, update, opts]);
+  }
+
+  /** @see WhatsAppClient.broadcast */
+  broadcast(recipients: Iterable<string>, messageFactory: BroadcastMessageFactory, opts?: BroadcastOptions): Broadcast {
+    return new Broadcast(recipients, messageFactory, opts);
+  }
+
   /** @see WhatsAppClient.markAsRead */
   async markAsRead(messageId: string): Promise<void> {
     this.calls.push({ method: 'markAsRead', args: [messageId], timestamp: Date.now() });
   }
 
+  /** @see WhatsAppClient.showTyping */
+  async showTyping(messageId: string): Promise<void> {
+    this.calls.push({ method: 'showTyping', args: [messageId], timestamp: Date.now() });
+  }
+
+  // -- Business profile ----------------------------------------------------
+
+  /** @see WhatsAppClient.getBusinessProfile */
+  async getBusinessProfile(fields?: BusinessProfileField[]): Promise<BusinessProfile> {
+    this.calls.push({ method: 'getBusinessProfile', args: [fields], timestamp: Date.now() });
+    if (!fields) return { ...this.businessProfile };
+    return Object.fromEntries(
+      Object.entries(this.businessProfile).filter(([key]) => fields.includes(key as BusinessProfileField)),
+    ) as BusinessProfile;
+  }
+
+  /** @see WhatsAppClient.updateBusinessProfile */
+  async updateBusinessProfile(patch: UpdateBusinessProfileInput): Promise<void> {
+    this.calls.push({ method: 'updateBusinessProfile', args: [patch], timestamp: Date.now() });
+    const { profile_picture, profile_picture_handle, ...fields } = patch;
+    Object.assign(this.businessProfile, fields);
+    if (profile_picture || profile_picture_handle) {
+      this.businessProfile.profile_picture_url = 'https://mock.whatsapp.local/profile.jpg';
+    }
+  }
+
   // -- Media methods -------------------------------------------------------
 
   /** @see WhatsAppClient.uploadMedia */
@@ -185,6 +300,307 @@ export class MockWhatsAppClient {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Mock namespaces
+// ---------------------------------------------------------------------------
+
+/**
+ * In‑memory stand‑in for `client.templates`. Calls are recorded on the owning
+ * mock client as `templates.<method>`.
+ */
+export class MockTemplatesApi {
+  /** Templates returned by `list`, `listPage` and `get`. Seed it in your tests. */
+  readonly store: MessageTemplate[] = [];
+  private readonly calls: RecordedCall[];
+
+  constructor(calls: RecordedCall[]) {
+    this.calls = calls;
+  }
+
+  /** @see TemplatesApi.list */
+  async *list(opts?: ListTemplatesOptions): AsyncIterableIterator<MessageTemplate> {
+    yield* (await this.listPage(opts)).data;
+  }
+
+  /** @see TemplatesApi.listPage */
+  async listPage(opts?: ListTemplatesOptions): Promise<GraphPage<MessageTemplate>> {
+    this.calls.push({ method: 'templates.list', args: [opts], timestamp: Date.now() });
+    return {
+      data: this.store.filter(
+        (t) =>
+          (!opts?.name || t.name.includes(opts.name)) &&
+          (!opts?.status || t.status === opts.status) &&
+          (!opts?.category || t.category === opts.category) &&
+          (!opts?.language || t.language === opts.language),
+      ),
+    };
+  }
+
+  /** @see TemplatesApi.get */
+  async get(templateId: string): Promise<MessageTemplate> {
+    this.calls.push({ method: 'templates.get', args: [templateId], timestamp: Date.now() });
+    const found = this.store.find((t) => t.id === templateId);
+    if (!found) throw new Error(`Mock template ${templateId} not found`);
+    return found;
+  }
+
+  /** @see TemplatesApi.create */
+  async create(input: CreateTemplateInput): Promise<CreateTemplateResult> {
+    this.calls.push({ method: 'templates.create', args: [input], timestamp: Date.now() });
+    const id = `template.mock.${this.store.length + 1}`;
+    this.store.push({
+      id,
+      name: input.name,
+      language: input.language,
+      category: input.category,
+      components: input.components,
+      parameter_format: input.parameter_format,
+      status: 'PENDING',
+    });
+    return { id, status: 'PENDING', category: input.category };
+  }
+
+  /** @see TemplatesApi.update */
+  async update(templateId: string, patch: UpdateTemplateInput): Promise<void> {
+    this.calls.push({ method: 'templates.update', args: [templateId, patch], timestamp: Date.now() });
+    const found = this.store.find((t) => t.id === templateId);
+    if (found) Object.assign(found, patch);
+  }
+
+  /** @see TemplatesApi.delete */
+  async delete(name: string, templateId?: string): Promise<void> {
+    this.calls.push({ method: 'templates.delete', args: [name, templateId], timestamp: Date.now() });
+    for (let i = this.store.length - 1; i >= 0; i--) {
+      const t = this.store[i];
+      if (t.name === name && (!templateId || t.id === templateId)) this.store.splice(i, 1);
+    }
+  }
+}
+
+/**
+ * In‑memory stand‑in for `client.flows`. Calls are recorded on the owning
+ * mock client as `flows.<method>`; uploaded JSON is checked with
+ * `validateFlowJson` and the issues are reported as validation errors.
+ */
+export class MockFlowsApi {
+  /** Flows returned by `list`, `listPage` and `get`. Seed it in your tests. */
+  readonly store: Flow[] = [];
+  private readonly calls: RecordedCall[];
+
+  constructor(calls: RecordedCall[]) {
+    this.calls = calls;
+  }
+
+  /** @see FlowsApi.list */
+  async *list(opts?: ListFlowsOptions): AsyncIterableIterator<Flow> {
+    yield* (await this.listPage(opts)).data;
+  }
+
+  /** @see FlowsApi.listPage */
+  async listPage(opts?: ListFlowsOptions): Promise<GraphPage<Flow>> {
+    this.calls.push({ method: 'flows.list', args: [opts], timestamp: Date.now() });
+    return { data: [...this.store] };
+  }
+
+  /** @see FlowsApi.get */
+  async get(flowId: string): Promise<Flow> {
+    this.calls.push({ method: 'flows.get', args: [flowId], timestamp: Date.now() });
+    return this.find(flowId);
+  }
+
+  /** @see FlowsApi.create */
+  async create(input: CreateFlowInput): Promise<CreateFlowResult> {
+    this.calls.push({ method: 'flows.create', args: [input], timestamp: Date.now() });
+    const id = `flow.mock.${this.store.length + 1}`;
+    const validationErrors = input.flow_json !== undefined ? mockFlowValidation(input.flow_json) : [];
+    this.store.push({
+      id,
+      name: input.name,
+      categories: input.categories,
+      endpoint_uri: input.endpoint_uri,
+      status: input.publish && validationErrors.length === 0 ? 'PUBLISHED' : 'DRAFT',
+      validation_errors: validationErrors,
+    });
+    return { id, success: true, validation_errors: validationErrors };
+  }
+
+  /** @see FlowsApi.update */
+  async update(flowId: string, patch: UpdateFlowInput): Promise<void> {
+    this.calls.push({ method: 'flows.update', args: [flowId, patch], timestamp: Date.now() });
+    const { application_id: _applicationId, ...fields } = patch;
+    Object.assign(this.find(flowId), fields);
+  }
+
+  /** @see FlowsApi.uploadJson */
+  async uploadJson(flowId: string, json: FlowJson | string): Promise<UploadFlowJsonResult> {
+    this.calls.push({ method: 'flows.uploadJson', args: [flowId, json], timestamp: Date.now() });
+    const validationErrors = mockFlowValidation(json);
+    this.find(flowId).validation_errors = validationErrors;
+    return { success: true, validation_errors: validationErrors };
+  }
+
+  /** @see FlowsApi.validationErrors */
+  async validationErrors(flowId: string): Promise<FlowValidationIssue[]> {
+    this.calls.push({ method: 'flows.validationErrors', args: [flowId], timestamp: Date.now() });
+    return this.find(flowId).validation_errors ?? [];
+  }
+
+  /** @see FlowsApi.publish */
+  async publish(flowId: string): Promise<void> {
+    this.calls.push({ method: 'flows.publish', args: [flowId], timestamp: Date.now() });
+    this.find(flowId).status = 'PUBLISHED';
+  }
+
+  /** @see FlowsApi.deprecate */
+  async deprecate(flowId: string): Promise<void> {
+    this.calls.push({ method: 'flows.deprecate', args: [flowId], timestamp: Date.now() });
+    this.find(flowId).status = 'DEPRECATED';
+  }
+
+  /** @see FlowsApi.delete */
+  async delete(flowId: string): Promise<void> {
+    this.calls.push({ method: 'flows.delete', args: [flowId], timestamp: Date.now() });
+    const index = this.store.findIndex((f) => f.id === flowId);
+    if (index >= 0) this.store.splice(index, 1);
+  }
+
+  /** @see FlowsApi.preview */
+  async preview(flowId: string, opts?: { invalidate?: boolean }): Promise<FlowPreview> {
+    this.calls.push({ method: 'flows.preview', args: [flowId, opts], timestamp: Date.now() });
+    this.find(flowId);
+    return {
+      preview_url: `https://business.facebook.com/wa/manage/flows/${flowId}/preview/`,
+      expires_at: new Date(Date.now() + 30 * 24 * 3600_000).toISOString(),
+    };
+  }
+
+  private find(flowId: string): Flow {
+    const found = this.store.find((f) => f.id === flowId);
+    if (!found) throw new Error(`Mock flow ${flowId} not found`);
+    return found;
+  }
+}
+
+/**
+ * Stand‑in for `client.uploads`. Calls are recorded on the owning mock client
+ * as `uploads.<method>`.
+ */
+export class MockUploadsApi {
+  private readonly calls: RecordedCall[];
+  private nextSession = 1;
+
+  constructor(calls: RecordedCall[]) {
+    this.calls = calls;
+  }
+
+  /** @see UploadsApi.createSession */
+  async createSession(opts: { fileLength: number; fileType: string; fileName?: string }): Promise<string> {
+    this.calls.push({ method: 'uploads.createSession', args: [opts], timestamp: Date.now() });
+    return `upload:mock.${this.nextSession++}`;
+  }
+
+  /** @see UploadsApi.getOffset */
+  async getOffset(sessionId: string): Promise<number> {
+    this.calls.push({ method: 'uploads.getOffset', args: [sessionId], timestamp: Date.now() });
+    return 0;
+  }
+
+  /** @see UploadsApi.upload */
+  async upload(source: UploadSource, opts: ResumableUploadOptions): Promise<ResumableUploadResult> {
+    this.calls.push({ method: 'uploads.upload', args: [source, opts], timestamp: Date.now() });
+    const sessionId = opts.sessionId ?? `upload:mock.${this.nextSession++}`;
+    return { handle: `4::mock-handle-${sessionId.slice('upload:'.length)}`, sessionId };
+  }
+}
+
+/**
+ * In‑memory stand‑in for `client.phoneNumbers`. Calls are recorded on the
+ * owning mock client as `phoneNumbers.<method>`; verification and
+ * registration update the stored number.
+ */
+export class MockPhoneNumbersApi {
+  /** Numbers returned by `list`, `listPage` and `get`. Seed it in your tests. */
+  readonly store: PhoneNumber[] = [];
+  private readonly calls: RecordedCall[];
+
+  constructor(calls: RecordedCall[]) {
+    this.calls = calls;
+  }
+
+  /** @see PhoneNumbersApi.list */
+  async *list(opts?: ListPhoneNumbersOptions): AsyncIterableIterator<PhoneNumber> {
+    yield* (await this.listPage(opts)).data;
+  }
+
+  /** @see PhoneNumbersApi.listPage */
+  async listPage(opts?: ListPhoneNumbersOptions): Promise<GraphPage<PhoneNumber>> {
+    this.calls.push({ method: 'phoneNumbers.list', args: [opts], timestamp: Date.now() });
+    return { data: [...this.store] };
+  }
+
+  /** @see PhoneNumbersApi.get */
+  async get(phoneNumberId: string): Promise<PhoneNumber> {
+    this.calls.push({ method: 'phoneNumbers.get', args: [phoneNumberId], timestamp: Date.now() });
+    return this.find(phoneNumberId);
+  }
+
+  /** @see PhoneNumbersApi.requestCode */
+  async requestCode(phoneNumberId: string, opts?: RequestCodeOptions): Promise<void> {
+    this.calls.push({ method: 'phoneNumbers.requestCode', args: [phoneNumberId, opts], timestamp: Date.now() });
+    this.find(phoneNumberId);
+  }
+
+  /** @see PhoneNumbersApi.verifyCode */
+  async verifyCode(phoneNumberId: string, code: string): Promise<void> {
+    this.calls.push({ method: 'phoneNumbers.verifyCode', args: [phoneNumberId, code], timestamp: Date.now() });
+    this.find(phoneNumberId).code_verification_status = 'VERIFIED';
+  }
+
+  /** @see PhoneNumbersApi.register */
+  async register(phoneNumberId: string, pin: string, opts?: RegisterPhoneNumberOptions): Promise<void> {
+    this.calls.push({ method: 'phoneNumbers.register', args: [phoneNumberId, pin, opts], timestamp: Date.now() });
+    this.find(phoneNumberId).status = 'CONNECTED';
+  }
+
+  /** @see PhoneNumbersApi.deregister */
+  async deregister(phoneNumberId: string): Promise<void> {
+    this.calls.push({ method: 'phoneNumbers.deregister', args: [phoneNumberId], timestamp: Date.now() });
+    this.find(phoneNumberId).status = 'DISCONNECTED';
+  }
+
+  /** @see PhoneNumbersApi.setTwoStepPin */
+  async setTwoStepPin(phoneNumberId: string, pin: string): Promise<void> {
+    this.calls.push({ method: 'phoneNumbers.setTwoStepPin', args: [phoneNumberId, pin], timestamp: Date.now() });
+    this.find(phoneNumberId);
+  }
+
+  /** @see PhoneNumbersApi.updateDisplayName */
+  async updateDisplayName(phoneNumberId: string, displayName: string): Promise<void> {
+    this.calls.push({ method: 'phoneNumbers.updateDisplayName', args: [phoneNumberId, displayName], timestamp: Date.now() });
+    this.find(phoneNumberId).new_name_status = 'PENDING_REVIEW';
+  }
+
+  private find(phoneNumberId: string): PhoneNumber {
+    const found = this.store.find((n) => n.id === phoneNumberId);
+    if (!found) throw new Error(`Mock phone number ${phoneNumberId} not found`);
+    return found;
+  }
+}
+
+function mockFlowValidation(json: FlowJson | string): FlowValidationIssue[] {
+  let parsed: FlowJson;
+  try {
+    parsed = typeof json === 'string' ? (JSON.parse(json) as FlowJson) : json;
+  } catch {
+    return [{ error: 'INVALID_JSON', error_type: 'JSON_SCHEMA_ERROR', message: 'Flow JSON is not valid JSON' }];
+  }
+  return validateFlowJson(parsed).map((message) => ({
+    error: 'INVALID_FLOW_JSON',
+    error_type: 'FLOW_JSON_ERROR',
+    message,
+  }));
+}
+
 // ---------------------------------------------------------------------------
 // Webhook payload factory
 // ---------------------------------------------------------------------------
@@ -193,7 +609,9 @@ export class MockWhatsAppClient {
  * Create a realistic‑looking webhook payload for testing.
  *
  * @param type - Inbound message type.
- * @param data - Partial data merged into the generated message.
+ * @param data - Partial data merged into the generated message. Pass a raw
+ *   `context` object (`id`, `from`, `forwarded`, `referred_product`, …) to
+ *   simulate replies, forwards and product enquiries.
  * @returns A `WebhookPayload` ready to feed into `parseIncoming` or `handleWebhook`.
  *
  * @example
@@ -203,13 +621,50 @@ export class MockWhatsAppClient {
  * ```
  */
 export function createMockWebhookPayload(
-  type: InboundMessageType | 'status',
+  type: InboundMessageType | 'status' | 'payment',
   data?: Record<string, unknown>,
 ): WebhookPayload {
   const from = String(data?.from ?? '5215512345678');
   const timestamp = String(data?.timestamp ?? Math.floor(Date.now() / 1000));
   const id = String(data?.id ?? `wamid.test.${Date.now()}`);
 
+  if (type === 'payment') {
+    return {
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: '123456',
+          changes: [
+            {
+              field: 'messages',
+              value: {
+                messaging_product: 'whatsapp',
+                metadata: { display_phone_number: '15550001234', phone_number_id: 'PHONE_ID' },
+                statuses: [
+                  {
+                    id,
+                    recipient_id: from,
+                    timestamp,
+                    type: 'payment',
+                    status: 'captured',
+                    payment: {
+                      reference_id: 'order-ref-1',
+                      amount: { value: 10000, offset: 100 },
+                      currency: 'INR',
+                      transaction: { id: 'txn_1', type: 'upi', status: 'success' },
+                      ...((data?.payment ?? {}) as Record<string, unknown>),
+                    },
+                    ...(data?.status ? { status: data.status } : {}),
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    };
+  }
+
   if (type === 'status') {
     return {
       object: 'whatsapp_business_account',
@@ -239,7 +694,14 @@ export function createMockWebhookPayload(
     };
   }
 
-  const msg: Record<string, unknown> = { from, timestamp, id, type, ...buildTypeData(type, data) };
+  const msg: Record<string, unknown> = {
+    from,
+    timestamp,
+    id,
+    type,
+    ...(data?.context ? { context: data.context } : {}),
+    ...buildTypeData(type, data),
+  };
 
   return {
     object: 'whatsapp_business_account',
@@ -354,12 +816,20 @@ function buildTypeData(type: string, data?: Record<string, unknown>): Record<str
         interactive: {
           type: 'nfm_reply',
           nfm_reply: {
-            response_json: '{"screen":"WELCOME","data":{}}',
+            response_json: '{"flow_token":"mock-flow-token","screen":"WELCOME","data":{}}',
             body: 'Flow response',
             ...((data?.nfm_reply ?? {}) as Record<string, unknown>),
           },
         },
       };
+    case 'button':
+      return {
+        button: {
+          payload: 'QUICK_REPLY_PAYLOAD',
+          text: 'Yes',
+          ...((data?.button ?? {}) as Record<string, unknown>),
+        },
+      };
     case 'order':
       return {
         order: {
@@ -9,20 +9,129 @@
 
 /** Configuration options for {@link WhatsAppClient}. */
 export interface WhatsAppClientConfig {
-  /** Permanent or temporary access token issued by Meta. */
-  accessToken: string;
+  /**
+   * Access token issued by Meta, or an async provider for rotating tokens.
+   * Provided tokens are cached, refreshed `tokenRefreshMarginMs` before they
+   * expire and once more when Graph rejects them (code 190).
+   */
+  accessToken: string | AccessTokenProvider;
+  /**
+   * How long before `expiresAt` a provided token is refreshed.
+   * @default 300_000 (5 min)
+   */
+  tokenRefreshMarginMs?: number;
   /** Phone‑number ID registered in the WhatsApp Business Account. */
   phoneNumberId: string;
+  /** WhatsApp Business Account ID. Required for account‑level APIs such as `client.templates`. */
+  wabaId?: string;
+  /** Meta app ID. Required for resumable uploads (profile pictures, template header examples). */
+  appId?: string;
   /** App secret used to verify webhook signatures (HMAC‑SHA256). */
   appSecret?: string;
   /** Graph API version. @default "v21.0" */
   apiVersion?: string;
+  /**
+   * Validate `sendTemplate` components against the template definition before
+   * sending (requires `wabaId`). Pass an object to tune the definition cache.
+   * Can be overridden per call with `SendTemplateOptions.preflight`.
+   * @default false
+   */
+  templatePreflight?: boolean | TemplatePreflightOptions;
+  /**
+   * Mark every inbound message as read from `handleWebhook`. While async
+   * `message` listeners are still running, a typing indicator is shown and
+   * refreshed until they settle or a message is sent to that user.
+   * @default false
+   */
+  autoRead?: boolean | AutoReadOptions;
+  /**
+   * Queue sends client‑side to stay within the per‑number throughput and the
+   * per‑recipient pair rate. Pass a `RateLimiter` to share one between clients.
+   * @default false
+   */
+  rateLimit?: boolean | RateLimitOptions | import('./rate-limiter').RateLimiter;
+  /**
+   * Persist every send to an outbox store and retry it until it is sent or
+   * fails for good. Pending entries left by a previous run are picked up.
+   */
+  outbox?: import('./outbox').OutboxOptions;
   /** Optional storage adapter for persisting downloaded media. */
   storage?: import('./storage/adapter').StorageAdapter;
   /** HTTP transport tuning. */
   http?: HttpOptions;
 }
 
+/** Payload of the `outbox:failed` event. */
+export interface OutboxFailedEvent {
+  /** The entry, now with status `failed`. */
+  entry: import('./outbox').OutboxEntry;
+  /** The last delivery error. */
+  error: Error;
+}
+
+/** A token returned by an {@link AccessTokenProvider}. */
+export interface AccessTokenInfo {
+  token: string;
+  /** Expiry as epoch milliseconds or a `Date`. Omit when unknown. */
+  expiresAt?: number | Date;
+}
+
+/**
+ * Fetches the current access token (from a secrets manager, an OAuth
+ * exchange, …). Called on first use, ahead of expiry and after Graph rejects
+ * the cached token.
+ */
+export type AccessTokenProvider = () => Promise<string | AccessTokenInfo>;
+
+/** Payload of the `token:refreshed` event. */
+export interface TokenRefreshedEvent {
+  /** Why the provider was called. */
+  reason: 'initial' | 'expiring' | 'rejected';
+  /** Expiry of the new token (epoch ms), if the provider reported one. */
+  expiresAt?: number;
+}
+
+/** Tuning for {@link WhatsAppClientConfig.rateLimit}. */
+export interface RateLimitOptions {
+  /** Sustained messages per second per business number. @default 80 */
+  messagesPerSecond?: number;
+  /** Messages that may go out at once before pacing kicks in. @default messagesPerSecond */
+  burst?: number;
+  /** Minimum gap between two messages to the same recipient; `0` disables it. @default 6_000 */
+  perRecipientIntervalMs?: number;
+}
+
+/** Queue state reported by `RateLimiter.metrics()`. */
+export interface RateLimiterMetrics {
+  /** Sends waiting across every business number. */
+  queued: number;
+  /** Per business number (`phoneNumberId`). */
+  phoneNumbers: Record<string, {
+    /** Sends waiting for this number. */
+    queued: number;
+    /** Distinct recipients with waiting sends. */
+    recipients: number;
+    /** Tokens currently in the bucket. */
+    availableTokens: number;
+  }>;
+}
+
+/** Tuning for {@link WhatsAppClientConfig.templatePreflight}. */
+export interface TemplatePreflightOptions {
+  /** How long a fetched template definition is reused. @default 600_000 (10 min) */
+  cacheTtlMs?: number;
+}
+
+/** Tuning for {@link WhatsAppClientConfig.autoRead}. */
+export interface AutoReadOptions {
+  /** Show a typing indicator while async `message` listeners run. @default true */
+  typing?: boolean;
+  /** How often the indicator is re‑sent (WhatsApp hides it after ~25 s). @default 20_000 */
+  typingRefreshMs?: number;
+  /** Stop refreshing after this long even if listeners are still running. @default 120_000 */
+  maxTypingMs?: number;
+}
+
 /** HTTP transport options. */
 export interface HttpOptions {
   /** Request timeout in milliseconds. @default 30_000 */
@@ -104,23 +213,277 @@ export interface SendTemplateOptions extends CommonSendOptions {
   language?: string;
   /** Template component parameters. */
   components?: TemplateComponent[];
+  /**
+   * Validate `components` against the template definition before sending.
+   * Overrides the client‑level `templatePreflight` setting.
+   */
+  preflight?: boolean;
+}
+
+/** Options for {@link WhatsAppClient.sendOtp}. */
+export interface SendOtpOptions {
+  /** Template language code. @default "en_US" */
+  language?: string;
+  /** Position of the OTP button in the template. @default 0 */
+  buttonIndex?: number;
+  /** Validate against the template definition before sending. See {@link SendTemplateOptions.preflight}. */
+  preflight?: boolean;
 }
 
-export interface TemplateComponent {
-  type: 'header' | 'body' | 'button';
-  sub_type?: string;
-  index?: string;
+/** A component of a template send: header, body, button, limited‑time offer or carousel. */
+export type TemplateComponent =
+  | TemplateHeaderComponent
+  | TemplateBodyComponent
+  | TemplateButtonComponent
+  | TemplateLimitedTimeOfferComponent
+  | TemplateCarouselComponent;
+
+export interface TemplateHeaderComponent {
+  type: 'header';
   parameters: TemplateParameter[];
 }
 
+export interface TemplateBodyComponent {
+  type: 'body';
+  parameters: TemplateParameter[];
+}
+
+/**
+ * Button `sub_type` values: `url` (dynamic URL and authentication OTP buttons),
+ * `copy_code` (coupon), `catalog` / `mpm` (catalog and multi‑product buttons).
+ */
+export type TemplateButtonSubType = 'quick_reply' | 'url' | 'copy_code' | 'catalog' | 'mpm' | 'flow';
+
+export interface TemplateButtonComponent {
+  type: 'button';
+  sub_type?: TemplateButtonSubType;
+  /** Zero‑based position of the button in the template. */
+  index?: string | number;
+  parameters: TemplateParameter[];
+}
+
+/** Expiration for a limited‑time‑offer template. */
+export interface TemplateLimitedTimeOfferComponent {
+  type: 'limited_time_offer';
+  parameters: Array<Extract<TemplateParameter, { type: 'limited_time_offer' }>>;
+}
+
+/** Media‑card carousel: one entry per card, in template order. */
+export interface TemplateCarouselComponent {
+  type: 'carousel';
+  cards: TemplateCarouselCard[];
+}
+
+export interface TemplateCarouselCard {
+  /** Zero‑based card position. */
+  card_index: number;
+  components: Array<TemplateHeaderComponent | TemplateBodyComponent | TemplateButtonComponent>;
+}
+
+/**
+ * A single template parameter. `parameter_name` is required for templates
+ * created with `parameter_format: 'NAMED'` (`{{first_name}}` placeholders).
+ */
 export type TemplateParameter =
-  | { type: 'text'; text: string }
-  | { type: 'currency'; currency: { fallback_value: string; code: string; amount_1000: number } }
-  | { type: 'date_time'; date_time: { fallback_value: string } }
+  | { type: 'text'; text: string; parameter_name?: string }
+  | {
+      type: 'currency';
+      currency: { fallback_value: string; code: string; amount_1000: number };
+      parameter_name?: string;
+    }
+  | { type: 'date_time'; date_time: { fallback_value: string }; parameter_name?: string }
   | { type: 'image'; image: MediaRef }
   | { type: 'video'; video: MediaRef }
   | { type: 'document'; document: MediaRef & { filename?: string } }
-  | { type: 'payload'; payload: string };
+  | { type: 'location'; location: Location }
+  | { type: 'payload'; payload: string }
+  | { type: 'coupon_code'; coupon_code: string }
+  | { type: 'action'; action: TemplateActionParameter }
+  | { type: 'limited_time_offer'; limited_time_offer: { expiration_time_ms: number } };
+
+/** `action` parameter for catalog, multi‑product and Flow buttons. */
+export interface TemplateActionParameter {
+  /** Product shown as the catalog / MPM thumbnail. */
+  thumbnail_product_retailer_id?: string;
+  /** Multi‑product button sections. */
+  sections?: Array<{ title: string; product_items: Array<{ product_retailer_id: string }> }>;
+  /** Flow button token. */
+  flow_token?: string;
+  /** Initial data for the Flow's first screen. */
+  flow_action_data?: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Template management (WABA `message_templates` edge)
+// ---------------------------------------------------------------------------
+
+export type TemplateCategory = 'AUTHENTICATION' | 'MARKETING' | 'UTILITY';
+
+export type TemplateStatus =
+  | 'APPROVED'
+  | 'PENDING'
+  | 'REJECTED'
+  | 'PAUSED'
+  | 'DISABLED'
+  | 'IN_APPEAL'
+  | 'PENDING_DELETION'
+  | 'DELETED'
+  | 'LIMIT_EXCEEDED'
+  | 'ARCHIVED';
+
+/** How body/header placeholders are written: `{{1}}` (positional) or `{{name}}` (named). */
+export type TemplateParameterFormat = 'POSITIONAL' | 'NAMED';
+
+/** A named placeholder example, e.g. `{ param_name: 'first_name', example: 'Ana' }`. */
+export interface TemplateNamedParamExample {
+  param_name: string;
+  example: string;
+}
+
+export interface TemplateHeaderDefinition {
+  type: 'HEADER';
+  format: 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT' | 'LOCATION';
+  /** Header text (only for `TEXT`), may contain one placeholder. */
+  text?: string;
+  example?: {
+    header_text?: string[];
+    header_text_named_params?: TemplateNamedParamExample[];
+    /** Upload handles for media headers. */
+    header_handle?: string[];
+  };
+}
+
+export interface TemplateBodyDefinition {
+  type: 'BODY';
+  /** Body text. Omitted for authentication templates, where Meta supplies the text. */
+  text?: string;
+  example?: {
+    /** One inner array of example values per template variant (usually exactly one). */
+    body_text?: string[][];
+    body_text_named_params?: TemplateNamedParamExample[];
+  };
+  /** Authentication templates only — append the "do not share this code" disclaimer. */
+  add_security_recommendation?: boolean;
+}
+
+export interface TemplateFooterDefinition {
+  type: 'FOOTER';
+  text?: string;
+  /** Authentication templates only — show "This code expires in N minutes". */
+  code_expiration_minutes?: number;
+}
+
+export interface TemplateButtonsDefinition {
+  type: 'BUTTONS';
+  buttons: TemplateButtonDefinition[];
+}
+
+export type TemplateButtonDefinition =
+  | { type: 'QUICK_REPLY'; text: string }
+  | { type: 'URL'; text: string; url: string; example?: string[] }
+  | { type: 'PHONE_NUMBER'; text: string; phone_number: string }
+  | { type: 'COPY_CODE'; example: string }
+  | {
+      type: 'OTP';
+      otp_type: 'COPY_CODE' | 'ONE_TAP' | 'ZERO_TAP';
+      text?: string;
+      autofill_text?: string;
+      supported_apps?: Array<{ package_name: string; signature_hash: string }>;
+      zero_tap_terms_accepted?: boolean;
+    }
+  | {
+      type: 'FLOW';
+      text: string;
+      flow_id?: string;
+      flow_name?: string;
+      flow_json?: string;
+      flow_action?: 'navigate' | 'data_exchange';
+      navigate_screen?: string;
+    }
+  | { type: 'CATALOG'; text: string }
+  | { type: 'MPM'; text: string };
+
+export interface TemplateLimitedTimeOfferDefinition {
+  type: 'LIMITED_TIME_OFFER';
+  limited_time_offer: { text: string; has_expiration?: boolean };
+}
+
+export interface TemplateCarouselDefinition {
+  type: 'CAROUSEL';
+  /** Each card has a media header, a body and up to two buttons. */
+  cards: Array<{
+    components: Array<TemplateHeaderDefinition | TemplateBodyDefinition | TemplateButtonsDefinition>;
+  }>;
+}
+
+/** A component in a template definition (as created / returned by the management API). */
+export type TemplateComponentDefinition =
+  | TemplateHeaderDefinition
+  | TemplateBodyDefinition
+  | TemplateFooterDefinition
+  | TemplateButtonsDefinition
+  | TemplateLimitedTimeOfferDefinition
+  | TemplateCarouselDefinition;
+
+/** A message template as returned by the Graph API. */
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  status: TemplateStatus;
+  category: TemplateCategory;
+  components: TemplateComponentDefinition[];
+  parameter_format?: TemplateParameterFormat;
+  previous_category?: TemplateCategory;
+  rejected_reason?: string;
+  quality_score?: { score: TemplateQualityScore; date?: number };
+}
+
+export interface CreateTemplateInput {
+  /** Lowercase letters, digits and underscores only. */
+  name: string;
+  /** Template language code, e.g. `"en_US"`. */
+  language: string;
+  category: TemplateCategory;
+  components: TemplateComponentDefinition[];
+  parameter_format?: TemplateParameterFormat;
+  /** Let Meta re‑categorise the template instead of rejecting it. */
+  allow_category_change?: boolean;
+  /** Time‑to‑live for undelivered messages sent with this template. */
+  message_send_ttl_seconds?: number;
+}
+
+export interface CreateTemplateResult {
+  id: string;
+  status: TemplateStatus;
+  category: TemplateCategory;
+}
+
+/** Fields that can be edited on an existing template. */
+export interface UpdateTemplateInput {
+  category?: TemplateCategory;
+  components?: TemplateComponentDefinition[];
+  message_send_ttl_seconds?: number;
+}
+
+export interface ListTemplatesOptions {
+  /** Filter by (partial) template name. */
+  name?: string;
+  status?: TemplateStatus;
+  category?: TemplateCategory;
+  language?: string;
+  /** Page size requested from the API. */
+  limit?: number;
+  /** Resume listing from this `after` cursor. */
+  after?: string;
+}
+
+/** A single page of results from a paginated Graph edge. */
+export interface GraphPage<T> {
+  data: T[];
+  /** Cursor to pass as `after` to fetch the next page; absent on the last page. */
+  after?: string;
+}
 
 // ---------------------------------------------------------------------------
 // Contact
@@ -187,7 +550,12 @@ export type Interactive =
   | InteractiveList
   | InteractiveFlow
   | InteractiveCTA
-  | InteractiveLocationRequest;
+  | InteractiveLocationRequest
+  | InteractiveProduct
+  | InteractiveProductList
+  | InteractiveCatalogMessage
+  | InteractiveOrderDetails
+  | InteractiveOrderStatus;
 
 export interface InteractiveButtons {
   type: 'button';
@@ -228,10 +596,27 @@ export interface InteractiveFlow {
   footer?: { text: string };
   action: {
     name: 'flow';
-    parameters: Record<string, unknown>;
+    parameters: InteractiveFlowParameters;
   };
 }
 
+/** `action.parameters` of a Flow message. Exactly one of `flow_id` / `flow_name` is required. */
+export interface InteractiveFlowParameters {
+  flow_message_version: '3';
+  flow_id?: string;
+  flow_name?: string;
+  /** Button label that opens the Flow. */
+  flow_cta: string;
+  /** Echoed back in data‑endpoint requests and in the `nfm_reply` — use it to correlate. */
+  flow_token?: string;
+  /** `draft` lets you test unpublished Flows. @default 'published' */
+  mode?: 'draft' | 'published';
+  /** @default 'navigate' */
+  flow_action?: 'navigate' | 'data_exchange';
+  /** First screen and its data (`navigate` only). */
+  flow_action_payload?: { screen: string; data?: Record<string, unknown> };
+}
+
 export interface InteractiveCTA {
   type: 'cta_url';
   header?: InteractiveHeader;
@@ -249,6 +634,115 @@ export interface InteractiveLocationRequest {
   action: { name: 'send_location' };
 }
 
+/** Single‑product message. */
+export interface InteractiveProduct {
+  type: 'product';
+  body?: { text: string };
+  footer?: { text: string };
+  action: {
+    catalog_id: string;
+    product_retailer_id: string;
+  };
+}
+
+/** Multi‑product message: up to 10 sections and 30 products in total. */
+export interface InteractiveProductList {
+  type: 'product_list';
+  /** Required for product lists, and must be a text header. */
+  header: { type: 'text'; text: string };
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    catalog_id: string;
+    sections: InteractiveProductSection[];
+  };
+}
+
+export interface InteractiveProductSection {
+  /** Required when there is more than one section. */
+  title?: string;
+  product_items: Array<{ product_retailer_id: string }>;
+}
+
+/** Catalog message — opens the full catalog from a "View catalog" button. */
+export interface InteractiveCatalogMessage {
+  type: 'catalog_message';
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    name: 'catalog_message';
+    /** Product shown as the message thumbnail (defaults to the first catalog item). */
+    parameters?: { thumbnail_product_retailer_id: string };
+  };
+}
+
+/** Monetary amount in minor units: `{ value: 12345, offset: 100 }` is 123.45. */
+export interface OrderAmount {
+  value: number;
+  offset: number;
+}
+
+/** Order lifecycle values accepted by `order_status` messages. */
+export type OrderStatus = 'pending' | 'processing' | 'partially-shipped' | 'shipped' | 'completed' | 'canceled';
+
+export interface OrderDetailsItem {
+  retailer_id: string;
+  name: string;
+  /** Unit price. */
+  amount: OrderAmount;
+  quantity: number;
+  /** Discounted unit price, if on sale. */
+  sale_amount?: OrderAmount;
+  country_of_origin?: string;
+  importer_name?: string;
+  importer_address?: Record<string, string>;
+}
+
+/** Order details (`review_and_pay`) message — asks the user to pay for an order. */
+export interface InteractiveOrderDetails {
+  type: 'order_details';
+  header?: InteractiveHeader;
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    name: 'review_and_pay';
+    parameters: {
+      reference_id: string;
+      type: 'digital-goods' | 'physical-goods';
+      /** Payment method family, e.g. `"upi"` (India) or `"br"` (Brazil). */
+      payment_type?: string;
+      /** Name of the payment configuration set up in WhatsApp Manager. */
+      payment_configuration: string;
+      currency: string;
+      total_amount: OrderAmount;
+      order: {
+        status: 'pending';
+        catalog_id?: string;
+        expiration?: { timestamp: string; description: string };
+        items: OrderDetailsItem[];
+        subtotal: OrderAmount;
+        tax: OrderAmount & { description?: string };
+        shipping?: OrderAmount & { description?: string };
+        discount?: OrderAmount & { description?: string; discount_program_name?: string };
+      };
+    };
+  };
+}
+
+/** Order status (`review_order`) message — updates the user on a previously sent order. */
+export interface InteractiveOrderStatus {
+  type: 'order_status';
+  body: { text: string };
+  footer?: { text: string };
+  action: {
+    name: 'review_order';
+    parameters: {
+      reference_id: string;
+      order: { status: OrderStatus; description?: string };
+    };
+  };
+}
+
 export type InteractiveHeader =
   | { type: 'text'; text: string }
   | { type: 'image'; image: MediaRef }
@@ -257,6 +751,424 @@ export type InteractiveHeader =
 
 export type SendInteractiveOptions = CommonSendOptions;
 
+/** Input for {@link buildOrderDetails} / `client.sendOrderDetails`. All amounts are in minor units. */
+export interface OrderDetailsInput {
+  /** Your unique order reference; echoed back in payment webhooks. */
+  referenceId: string;
+  /** @default "physical-goods" */
+  goodsType?: 'digital-goods' | 'physical-goods';
+  paymentType?: string;
+  paymentConfiguration: string;
+  /** ISO 4217 currency code, e.g. `"INR"`. */
+  currency: string;
+  /** Minor units per major unit. @default 100 */
+  offset?: number;
+  body: string;
+  footer?: string;
+  header?: InteractiveHeader;
+  catalogId?: string;
+  items: Array<{
+    retailerId: string;
+    name: string;
+    /** Unit price in minor units. */
+    amount: number;
+    quantity: number;
+    /** Discounted unit price in minor units. */
+    saleAmount?: number;
+    countryOfOrigin?: string;
+    importerName?: string;
+    importerAddress?: Record<string, string>;
+  }>;
+  /** @default 0 */
+  tax?: number;
+  taxDescription?: string;
+  shipping?: number;
+  shippingDescription?: string;
+  discount?: number;
+  discountDescription?: string;
+  /** Order expiry: epoch seconds plus the text shown to the user. */
+  expiration?: { timestamp: number; description: string };
+}
+
+/** Input for `client.sendFlow`. Identify the Flow by `flowId` or `flowName`. */
+export type SendFlowInput<TData extends Record<string, unknown> = Record<string, unknown>> = SendFlowBase &
+  ({ flowId: string; flowName?: never } | { flowName: string; flowId?: never }) &
+  (
+    | {
+        /** Open the Flow on `screen` with `data`. @default 'navigate' */
+        action?: 'navigate';
+        screen: string;
+        data?: TData;
+      }
+    | {
+        /** Ask the Flow's data endpoint for the first screen (`INIT` request). */
+        action: 'data_exchange';
+        screen?: never;
+        data?: never;
+      }
+  );
+
+/** Fields shared by every {@link SendFlowInput}. */
+export interface SendFlowBase {
+  /** Button label that opens the Flow (max 20 characters). */
+  flowCta: string;
+  /** Correlation token, echoed back in endpoint requests and as `InboundFlowReply.flow.flowToken`. */
+  flowToken?: string;
+  /** @default 'published' */
+  mode?: 'draft' | 'published';
+  body: string;
+  header?: InteractiveHeader;
+  footer?: string;
+}
+
+/** Input for {@link buildOrderStatus} / `client.sendOrderStatus`. */
+export interface OrderStatusInput {
+  referenceId: string;
+  status: OrderStatus;
+  body: string;
+  footer?: string;
+  /** Optional explanation shown with the status (e.g. a cancellation reason). */
+  description?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Flow JSON (screens and components of a WhatsApp Flow)
+// ---------------------------------------------------------------------------
+
+/** Flow JSON version, e.g. `"7.0"`. */
+export type FlowJsonVersion = `${number}.${number}`;
+
+/** A complete Flow JSON document, as uploaded to the Flow's `assets` edge. */
+export interface FlowJson {
+  version: FlowJsonVersion;
+  /** Required when the Flow uses a data endpoint. */
+  data_api_version?: '3.0';
+  /** Screen → screens reachable from it. Required with `data_api_version`. */
+  routing_model?: Record<string, string[]>;
+  screens: FlowScreen[];
+}
+
+export interface FlowScreen {
+  /** Unique screen id (`SUCCESS` is reserved). */
+  id: string;
+  title?: string;
+  /** The Flow may end on this screen (a `complete` action is only allowed here). */
+  terminal?: boolean;
+  /** Whether ending on this terminal screen counts as a successful completion. */
+  success?: boolean;
+  /** Send a `BACK` request to the data endpoint when the user navigates back. */
+  refresh_on_back?: boolean;
+  /** Dynamic data the screen expects, with `__example__` values. */
+  data?: Record<string, FlowScreenDataField>;
+  layout: FlowLayout;
+}
+
+export interface FlowScreenDataField {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  __example__?: unknown;
+  [key: string]: unknown;
+}
+
+export interface FlowLayout {
+  type: 'SingleColumnLayout';
+  children: FlowComponent[];
+}
+
+export type FlowComponent =
+  | FlowTextComponent
+  | FlowTextInput
+  | FlowTextArea
+  | FlowDropdown
+  | FlowRadioButtonsGroup
+  | FlowCheckboxGroup
+  | FlowDatePicker
+  | FlowCalendarPicker
+  | FlowOptIn
+  | FlowEmbeddedLink
+  | FlowFooter
+  | FlowForm
+  | FlowIf;
+
+/** Heading, body and caption text. `RichText` requires Flow JSON 5.1+. */
+export interface FlowTextComponent {
+  type: 'TextHeading' | 'TextSubheading' | 'TextBody' | 'TextCaption' | 'RichText';
+  text: string | string[];
+  visible?: boolean | string;
+}
+
+/** Option of a `Dropdown`, `RadioButtonsGroup` or `CheckboxGroup`. */
+export interface FlowDataSourceOption {
+  id: string;
+  title: string;
+  description?: string;
+  metadata?: string;
+  enabled?: boolean;
+}
+
+export interface FlowTextInput {
+  type: 'TextInput';
+  name: string;
+  label: string;
+  'input-type'?: 'text' | 'number' | 'email' | 'password' | 'passcode' | 'phone';
+  required?: boolean;
+  'helper-text'?: string;
+  'min-chars'?: number;
+  'max-chars'?: number;
+  'init-value'?: string;
+  visible?: boolean | string;
+}
+
+export interface FlowTextArea {
+  type: 'TextArea';
+  name: string;
+  label: string;
+  required?: boolean;
+  'helper-text'?: string;
+  'max-length'?: number;
+  'init-value'?: string;
+  visible?: boolean | string;
+}
+
+export interface FlowDropdown {
+  type: 'Dropdown';
+  name: string;
+  label: string;
+  /** Static options or a `${data.…}` reference. */
+  'data-source': FlowDataSourceOption[] | string;
+  required?: boolean;
+  'init-value'?: string;
+  'on-select-action'?: FlowAction;
+  visible?: boolean | string;
+}
+
+export interface FlowRadioButtonsGroup {
+  type: 'RadioButtonsGroup';
+  name: string;
+  label?: string;
+  'data-source': FlowDataSourceOption[] | string;
+  required?: boolean;
+  'init-value'?: string;
+  'on-select-action'?: FlowAction;
+  visible?: boolean | string;
+}
+
+export interface FlowCheckboxGroup {
+  type: 'CheckboxGroup';
+  name: string;
+  label?: string;
+  'data-source': FlowDataSourceOption[] | string;
+  required?: boolean;
+  'min-selected-items'?: number;
+  'max-selected-items'?: number;
+  'init-value'?: string[];
+  'on-select-action'?: FlowAction;
+  visible?: boolean | string;
+}
+
+export interface FlowDatePicker {
+  type: 'DatePicker';
+  name: string;
+  label: string;
+  /** `YYYY-MM-DD`. */
+  'min-date'?: string;
+  /** `YYYY-MM-DD`. */
+  'max-date'?: string;
+  'unavailable-dates'?: string[];
+  required?: boolean;
+  'helper-text'?: string;
+  'init-value'?: string;
+  'on-select-action'?: FlowAction;
+  visible?: boolean | string;
+}
+
+/** Full‑screen calendar. Requires Flow JSON 6.1+. */
+export interface FlowCalendarPicker {
+  type: 'CalendarPicker';
+  name: string;
+  label?: string;
+  mode?: 'single' | 'range';
+  'min-date'?: string;
+  'max-date'?: string;
+  'unavailable-dates'?: string[];
+  required?: boolean;
+  'on-select-action'?: FlowAction;
+  visible?: boolean | string;
+}
+
+export interface FlowOptIn {
+  type: 'OptIn';
+  name: string;
+  label: string;
+  required?: boolean;
+  'on-click-action'?: FlowAction;
+  visible?: boolean | string;
+}
+
+export interface FlowEmbeddedLink {
+  type: 'EmbeddedLink';
+  text: string;
+  'on-click-action': FlowAction;
+  visible?: boolean | string;
+}
+
+export interface FlowFooter {
+  type: 'Footer';
+  label: string;
+  'on-click-action': FlowAction;
+  'left-caption'?: string;
+  'center-caption'?: string;
+  'right-caption'?: string;
+  enabled?: boolean | string;
+}
+
+export interface FlowForm {
+  type: 'Form';
+  name: string;
+  children: FlowComponent[];
+}
+
+/** Conditional rendering. Requires Flow JSON 4.0+. */
+export interface FlowIf {
+  type: 'If';
+  /** Boolean expression, e.g. `"${form.opt_in}"`. */
+  condition: string;
+  then: FlowComponent[];
+  else?: FlowComponent[];
+}
+
+export type FlowAction = FlowNavigateAction | FlowCompleteAction | FlowDataExchangeAction;
+
+/** Go to another screen without calling the data endpoint. */
+export interface FlowNavigateAction {
+  name: 'navigate';
+  next: { type: 'screen'; name: string };
+  payload?: Record<string, unknown>;
+}
+
+/** End the Flow; `payload` becomes the `response_json` of the flow reply. */
+export interface FlowCompleteAction {
+  name: 'complete';
+  payload?: Record<string, unknown>;
+}
+
+/** Send `payload` to the data endpoint, which returns the next screen. */
+export interface FlowDataExchangeAction {
+  name: 'data_exchange';
+  payload?: Record<string, unknown>;
+}
+
+/** Options for {@link FlowJsonBuilder}. */
+export interface FlowJsonBuilderOptions {
+  /** @default '7.0' */
+  version?: FlowJsonVersion;
+  /** Set when the Flow uses a data endpoint; a routing model is then generated. */
+  dataApiVersion?: '3.0';
+}
+
+/** Options for one screen added through {@link FlowJsonBuilder}. */
+export interface FlowScreenOptions {
+  title?: string;
+  terminal?: boolean;
+  success?: boolean;
+  refreshOnBack?: boolean;
+  data?: Record<string, FlowScreenDataField>;
+  children: FlowComponent[];
+}
+
+// ---------------------------------------------------------------------------
+// Flow management (WABA `flows` edge)
+// ---------------------------------------------------------------------------
+
+export type FlowStatus = 'DRAFT' | 'PUBLISHED' | 'DEPRECATED' | 'BLOCKED' | 'THROTTLED';
+
+export type FlowCategory =
+  | 'SIGN_UP'
+  | 'SIGN_IN'
+  | 'APPOINTMENT_BOOKING'
+  | 'LEAD_GENERATION'
+  | 'CONTACT_US'
+  | 'CUSTOMER_SUPPORT'
+  | 'SURVEY'
+  | 'OTHER';
+
+/** A problem Meta found in an uploaded Flow JSON. Drafts with errors cannot be published. */
+export interface FlowValidationIssue {
+  error: string;
+  error_type: string;
+  message: string;
+  line_start?: number;
+  line_end?: number;
+  column_start?: number;
+  column_end?: number;
+  pointers?: Array<{
+    line_start: number;
+    line_end: number;
+    column_start: number;
+    column_end: number;
+    path: string;
+  }>;
+}
+
+/** A Flow as returned by the Graph API. Which fields are present depends on the request. */
+export interface Flow {
+  id: string;
+  name: string;
+  status: FlowStatus;
+  categories: FlowCategory[];
+  validation_errors?: FlowValidationIssue[];
+  json_version?: string;
+  data_api_version?: string;
+  endpoint_uri?: string;
+  preview?: FlowPreview;
+  health_status?: { can_send_message: 'AVAILABLE' | 'LIMITED' | 'BLOCKED'; entities?: unknown[] };
+}
+
+export interface FlowPreview {
+  /** Web preview of the Flow, usable without a phone. */
+  preview_url: string;
+  /** ISO 8601 expiry of `preview_url`. */
+  expires_at: string;
+}
+
+export interface CreateFlowInput {
+  name: string;
+  categories: FlowCategory[];
+  /** Copy the JSON of an existing Flow. */
+  clone_flow_id?: string;
+  /** Data endpoint URL (Flow JSON 3.0+ with `data_api_version`). */
+  endpoint_uri?: string;
+  /** Flow JSON to upload with the draft. */
+  flow_json?: FlowJson | string;
+  /** Publish straight away (requires `flow_json` without validation errors). */
+  publish?: boolean;
+}
+
+export interface CreateFlowResult {
+  id: string;
+  success?: boolean;
+  validation_errors?: FlowValidationIssue[];
+}
+
+/** Metadata that can be changed on an existing Flow. */
+export interface UpdateFlowInput {
+  name?: string;
+  categories?: FlowCategory[];
+  endpoint_uri?: string;
+  application_id?: string;
+}
+
+export interface UploadFlowJsonResult {
+  success: boolean;
+  validation_errors: FlowValidationIssue[];
+}
+
+export interface ListFlowsOptions {
+  /** Page size. */
+  limit?: number;
+  /** Cursor from a previous page. */
+  after?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Media management
 // ---------------------------------------------------------------------------
@@ -274,6 +1186,161 @@ export interface MediaUrlResult {
   messaging_product: string;
 }
 
+// ---------------------------------------------------------------------------
+// Phone number management
+// ---------------------------------------------------------------------------
+
+export type PhoneNumberQualityRating = 'GREEN' | 'YELLOW' | 'RED' | 'UNKNOWN';
+
+/** Business‑initiated conversations allowed per rolling 24 hours. */
+export type MessagingLimitTier =
+  | 'TIER_50'
+  | 'TIER_250'
+  | 'TIER_1K'
+  | 'TIER_10K'
+  | 'TIER_100K'
+  | 'TIER_UNLIMITED';
+
+/** Review status of the display name. */
+export type PhoneNumberNameStatus =
+  | 'APPROVED'
+  | 'AVAILABLE_WITHOUT_REVIEW'
+  | 'DECLINED'
+  | 'EXPIRED'
+  | 'PENDING_REVIEW'
+  | 'NONE';
+
+export type CodeVerificationStatus = 'VERIFIED' | 'NOT_VERIFIED' | 'EXPIRED';
+
+/** A business phone number as returned by the Graph API. */
+export interface PhoneNumber {
+  id: string;
+  display_phone_number: string;
+  verified_name: string;
+  quality_rating: PhoneNumberQualityRating;
+  messaging_limit_tier?: MessagingLimitTier;
+  name_status?: PhoneNumberNameStatus;
+  /** Status of a pending display name change. */
+  new_name_status?: PhoneNumberNameStatus;
+  code_verification_status?: CodeVerificationStatus;
+  /** Connection status, e.g. `"CONNECTED"`, `"FLAGGED"`, `"RESTRICTED"`. */
+  status?: string;
+  platform_type?: 'CLOUD_API' | 'ON_PREMISE' | 'NOT_APPLICABLE';
+  throughput?: { level: 'STANDARD' | 'HIGH' | 'NOT_APPLICABLE' };
+  is_official_business_account?: boolean;
+  last_onboarded_time?: string;
+}
+
+export interface ListPhoneNumbersOptions {
+  /** Page size. */
+  limit?: number;
+  /** Cursor from a previous page. */
+  after?: string;
+}
+
+export interface RequestCodeOptions {
+  /** @default 'SMS' */
+  method?: 'SMS' | 'VOICE';
+  /** Language of the message carrying the code. @default 'en_US' */
+  language?: string;
+}
+
+export interface RegisterPhoneNumberOptions {
+  /** Store message data at rest in this region (local storage). */
+  dataLocalizationRegion?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Resumable uploads (`/{app-id}/uploads`)
+// ---------------------------------------------------------------------------
+
+/** File to upload: in‑memory bytes, or a path read chunk by chunk from disk. */
+export type UploadSource = Buffer | Uint8Array | { path: string };
+
+export interface ResumableUploadOptions {
+  /** MIME type, e.g. `"image/jpeg"` or `"video/mp4"`. */
+  mimeType: string;
+  /** File name reported to Graph. */
+  fileName?: string;
+  /** Bytes sent per request. @default the whole file */
+  chunkSize?: number;
+  /** Resume an existing session (e.g. from `UploadInterruptedError.sessionId`) instead of creating one. */
+  sessionId?: string;
+  /** Times to re‑read the server offset and continue after a retryable failure or a stalled chunk. @default 3 */
+  maxResumeAttempts?: number;
+  /** Called after the starting offset is known and after every chunk. */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadProgress {
+  sessionId: string;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+export interface ResumableUploadResult {
+  /**
+   * File handle — use it as `profile_picture_handle` or in template header
+   * examples (`example.header_handle`).
+   */
+  handle: string;
+  sessionId: string;
+}
+
+// ---------------------------------------------------------------------------
+// Business profile
+// ---------------------------------------------------------------------------
+
+export type BusinessVertical =
+  | 'UNDEFINED'
+  | 'OTHER'
+  | 'AUTO'
+  | 'BEAUTY'
+  | 'APPAREL'
+  | 'EDU'
+  | 'ENTERTAIN'
+  | 'EVENT_PLAN'
+  | 'FINANCE'
+  | 'GROCERY'
+  | 'GOVT'
+  | 'HOTEL'
+  | 'HEALTH'
+  | 'NONPROFIT'
+  | 'PROF_SERVICES'
+  | 'RETAIL'
+  | 'TRAVEL'
+  | 'RESTAURANT'
+  | 'NOT_A_BIZ';
+
+/** Business profile of a phone number. Only requested fields are present. */
+export interface BusinessProfile {
+  /** Shown under the profile name (max 139 characters). */
+  about?: string;
+  address?: string;
+  description?: string;
+  email?: string;
+  profile_picture_url?: string;
+  /** Up to two URLs. */
+  websites?: string[];
+  vertical?: BusinessVertical;
+}
+
+export type BusinessProfileField = keyof BusinessProfile;
+
+/** Fields to change on the business profile. Omitted fields are left as they are. */
+export interface UpdateBusinessProfileInput {
+  about?: string;
+  address?: string;
+  description?: string;
+  email?: string;
+  websites?: string[];
+  vertical?: BusinessVertical;
+  /** Handle of an image already uploaded with a resumable upload session. */
+  profile_picture_handle?: string;
+  /** New profile picture; uploaded through a resumable upload session (requires `appId`). */
+  profile_picture?: { file: Buffer | Uint8Array; mimeType: 'image/jpeg' | 'image/png' };
+}
+
 // ---------------------------------------------------------------------------
 // Inbound message types (webhook parsing)
 // ---------------------------------------------------------------------------
@@ -285,6 +1352,30 @@ export interface InboundBase {
   timestamp: number;
   /** WhatsApp message ID. */
   wamid: string;
+  /** Reply / forwarding context, present when the raw message carries a `context` object. */
+  context?: InboundContext;
+  /** Sender's WhatsApp profile name (from the change‑level `contacts`). */
+  profileName?: string;
+  /** Sender's WhatsApp ID (from the change‑level `contacts`; may differ from `from`). */
+  waId?: string;
+  /** Phone‑number ID of the business number that received the message. */
+  phoneNumberId?: string;
+  /** Display phone number of the business number that received the message. */
+  displayPhoneNumber?: string;
+}
+
+/** Context attached to an inbound message (quoted reply, forward flags, product enquiry). */
+export interface InboundContext {
+  /** wamid of the message being replied to. */
+  messageId?: string;
+  /** Sender of the quoted message (your business number for replies to your messages). */
+  from?: string;
+  /** `true` if the message was forwarded. */
+  forwarded?: boolean;
+  /** `true` if the message has been forwarded more than 5 times. */
+  frequentlyForwarded?: boolean;
+  /** Product the user asked about via the "Message business" button on a product. */
+  referredProduct?: { catalogId: string; productRetailerId: string };
 }
 
 export interface InboundText extends InboundBase {
@@ -342,9 +1433,25 @@ export interface InboundReaction extends InboundBase {
   reaction: { messageId: string; emoji: string };
 }
 
-export interface InboundFlowReply extends InboundBase {
+/**
+ * Completed Flow. Pass the shape of your Flow's response to type `responseJson`,
+ * e.g. `msg as InboundFlowReply<{ slot: string }>`.
+ */
+export interface InboundFlowReply<TResponse extends Record<string, unknown> = Record<string, unknown>>
+  extends InboundBase {
   type: 'flow_reply';
-  flow: { responseJson: Record<string, unknown>; body: string };
+  flow: {
+    responseJson: TResponse & { flow_token?: string };
+    body: string;
+    /** `flow_token` the Flow was sent with (see `SendFlowInput.flowToken`). */
+    flowToken?: string;
+  };
+}
+
+export interface InboundButton extends InboundBase {
+  type: 'button';
+  /** Quick‑reply button tapped on a template message. */
+  button: { payload: string; text: string };
 }
 
 export interface InboundOrder extends InboundBase {
@@ -389,6 +1496,7 @@ export type InboundMessage =
   | InboundInteractiveReply
   | InboundReaction
   | InboundFlowReply
+  | InboundButton
   | InboundOrder
   | InboundSystem
   | InboundReferral
@@ -406,11 +1514,201 @@ export interface StatusUpdate {
   recipientId: string;
   timestamp: number;
   status: 'sent' | 'delivered' | 'read' | 'failed';
-  errors?: Array<{ code: number; title: string; message?: string; error_data?: Record<string, unknown> }>;
+  errors?: Array<{
+    code: number;
+    title: string;
+    message?: string;
+    error_data?: Record<string, unknown>;
+    /** The same error classified as a typed {@link WhatsAppError} subclass (e.g. `ReEngagementRequiredError`). */
+    error: import('./errors').WhatsAppError;
+  }>;
   conversation?: { id: string; origin?: { type: string } };
   pricing?: { billable: boolean; pricing_model: string; category: string };
+  /** Recipient's WhatsApp profile name, when the change carries matching `contacts`. */
+  profileName?: string;
+  /** Phone‑number ID of the business number that sent the message. */
+  phoneNumberId?: string;
+  /** Display phone number of the business number that sent the message. */
+  displayPhoneNumber?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Payment status (order_details checkout)
+// ---------------------------------------------------------------------------
+
+/** A payment status webhook (`statuses[]` entry with `type: "payment"`). */
+export interface PaymentStatusUpdate {
+  id: string;
+  recipientId: string;
+  timestamp: number;
+  status: 'pending' | 'captured' | 'failed';
+  /** The `reference_id` of the `order_details` message being paid. */
+  referenceId: string;
+  amount?: OrderAmount;
+  currency?: string;
+  transaction?: {
+    id: string;
+    type: string;
+    status: string;
+    createdTimestamp?: number;
+    updatedTimestamp?: number;
+    methodType?: string;
+    error?: { code: string; reason: string };
+  };
+  /** Phone‑number ID of the business number that sent the order. */
+  phoneNumberId?: string;
+  /** Display phone number of the business number that sent the order. */
+  displayPhoneNumber?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Account events
+// ---------------------------------------------------------------------------
+
+/** Fields shared by every account‑level webhook event. */
+export interface AccountEventBase {
+  /** WABA ID the notification was sent for (`entry[].id`). */
+  wabaId: string;
+  /** `entry[].time` (Unix seconds), when present. */
+  timestamp?: number;
 }
 
+/**
+ * `phone_number_quality_update` — the number was flagged / unflagged or its
+ * messaging limit changed.
+ */
+export interface PhoneNumberQualityUpdate extends AccountEventBase {
+  type: 'quality';
+  displayPhoneNumber: string;
+  /** `FLAGGED` / `UNFLAGGED` concern quality; `UPGRADE` / `DOWNGRADE` the messaging limit. */
+  event: 'FLAGGED' | 'UNFLAGGED' | 'UPGRADE' | 'DOWNGRADE' | 'ONBOARDING';
+  /** Messaging limit after the change. */
+  currentLimit?: MessagingLimitTier;
+  /** Messaging limit before the change, when reported. */
+  oldLimit?: MessagingLimitTier;
+}
+
+/** `account_update` — verification, bans, violations and restrictions of the WABA. */
+export interface AccountUpdate extends AccountEventBase {
+  type: 'update';
+  event:
+    | 'VERIFIED_ACCOUNT'
+    | 'DISABLED_UPDATE'
+    | 'ACCOUNT_VIOLATION'
+    | 'ACCOUNT_RESTRICTION'
+    | 'ACCOUNT_DELETED'
+    | 'PARTNER_ADDED'
+    | 'PARTNER_REMOVED';
+  /** Phone number the event refers to, if any. */
+  phoneNumber?: string;
+  /** Present on `DISABLED_UPDATE`. */
+  banInfo?: { state: 'SCHEDULE_FOR_DISABLE' | 'DISABLE' | 'REINSTATE'; date?: string };
+  /** Present on `ACCOUNT_VIOLATION`. */
+  violationType?: string;
+  /** Present on `ACCOUNT_RESTRICTION`. */
+  restrictions?: Array<{ type: string; expiration?: number }>;
+}
+
+/** `account_alerts` — alerts shown in WhatsApp Manager. */
+export interface AccountAlert extends AccountEventBase {
+  type: 'alert';
+  entityType: 'WABA' | 'PHONE_NUMBER' | 'BUSINESS';
+  entityId: string;
+  severity: 'CRITICAL' | 'WARNING' | 'INFORMATIONAL';
+  /** `NONE` when the alert was cleared. */
+  status: 'ACTIVE' | 'NONE';
+  /** Alert code, e.g. `"OBA_APPROVED"`, `"INCREASED_CAPABILITIES_ELIGIBILITY_FAILED"`. */
+  alertType: string;
+  description?: string;
+}
+
+/** `account_review_update` — outcome of the WABA policy review. */
+export interface AccountReviewUpdate extends AccountEventBase {
+  type: 'review';
+  decision: 'APPROVED' | 'REJECTED' | 'PENDING' | 'DEFERRED';
+}
+
+/** `business_capability_update` — new conversation and phone number limits. */
+export interface BusinessCapabilityUpdate extends AccountEventBase {
+  type: 'capability';
+  maxDailyConversationsPerPhone?: number;
+  /** Business‑level messaging limit, e.g. `"TIER_2K"`. */
+  maxDailyConversationsPerBusiness?: string;
+  maxPhoneNumbersPerBusiness?: number;
+  maxPhoneNumbersPerWaba?: number;
+}
+
+/** `phone_number_name_update` — review decision on a display name change. */
+export interface PhoneNumberNameUpdate extends AccountEventBase {
+  type: 'name';
+  displayPhoneNumber: string;
+  decision: 'APPROVED' | 'REJECTED' | 'DEFERRED' | 'PENDING';
+  requestedVerifiedName: string;
+  rejectionReason?: string;
+}
+
+/** Any account‑level webhook event, discriminated by `type`. */
+export type AccountEvent =
+  | PhoneNumberQualityUpdate
+  | AccountUpdate
+  | AccountAlert
+  | AccountReviewUpdate
+  | BusinessCapabilityUpdate
+  | PhoneNumberNameUpdate;
+
+// ---------------------------------------------------------------------------
+// Template events
+// ---------------------------------------------------------------------------
+
+/** `event` of a `message_template_status_update`. */
+export type TemplateStatusEvent = TemplateStatus | 'FLAGGED' | 'REINSTATED' | 'LOCKED' | 'UNLOCKED';
+
+/** Template quality score. */
+export type TemplateQualityScore = 'GREEN' | 'YELLOW' | 'RED' | 'UNKNOWN';
+
+/** Fields shared by every template lifecycle webhook event. */
+export interface TemplateEventBase {
+  /** WABA ID the notification was sent for (`entry[].id`). */
+  wabaId: string;
+  /** `entry[].time` (Unix seconds), when present. */
+  timestamp?: number;
+  templateId: string;
+  templateName: string;
+  language: string;
+}
+
+/** `message_template_status_update` — approved, rejected, paused, disabled, … */
+export interface TemplateStatusUpdate extends TemplateEventBase {
+  type: 'status';
+  event: TemplateStatusEvent;
+  /** Rejection reason, e.g. `"INVALID_FORMAT"`, `"INCORRECT_CATEGORY"`; absent when Meta sends `"NONE"`. */
+  reason?: string;
+  /** Pause details, e.g. `{ title: 'FIRST_PAUSE', description: '…' }`. */
+  otherInfo?: { title: string; description?: string };
+  /** Date the template will be disabled, when reported. */
+  disableDate?: string;
+}
+
+/** `message_template_quality_update` — the quality score changed. */
+export interface TemplateQualityUpdate extends TemplateEventBase {
+  type: 'quality';
+  previousQuality: TemplateQualityScore;
+  newQuality: TemplateQualityScore;
+}
+
+/** `template_category_update` — Meta re‑categorized (or will re‑categorize) the template. */
+export interface TemplateCategoryUpdate extends TemplateEventBase {
+  type: 'category';
+  previousCategory: TemplateCategory;
+  /** Category now in effect. */
+  newCategory?: TemplateCategory;
+  /** Category the template will be moved to, when the change is announced ahead of time. */
+  correctCategory?: TemplateCategory;
+}
+
+/** Any template lifecycle webhook event, discriminated by `type`. */
+export type TemplateEvent = TemplateStatusUpdate | TemplateQualityUpdate | TemplateCategoryUpdate;
+
 // ---------------------------------------------------------------------------
 // Webhook
 // ---------------------------------------------------------------------------
@@ -422,6 +1720,8 @@ export interface WebhookPayload {
 
 export interface WebhookEntry {
   id: string;
+  /** Unix seconds; sent with account‑level fields. */
+  time?: number;
   changes: WebhookChange[];
 }
 
@@ -456,10 +1756,36 @@ export interface WhatsAppEvents {
   'message:interactive_reply': (msg: InboundInteractiveReply) => void;
   'message:reaction': (msg: InboundReaction) => void;
   'message:flow_reply': (msg: InboundFlowReply) => void;
+  'message:button': (msg: InboundButton) => void;
   'message:order': (msg: InboundOrder) => void;
   'message:system': (msg: InboundSystem) => void;
   'message:referral': (msg: InboundReferral) => void;
   'message:unsupported': (msg: InboundUnsupported) => void;
   status: (status: StatusUpdate) => void;
+  payment: (payment: PaymentStatusUpdate) => void;
+  'payment:pending': (payment: PaymentStatusUpdate) => void;
+  'payment:captured': (payment: PaymentStatusUpdate) => void;
+  'payment:failed': (payment: PaymentStatusUpdate) => void;
+  account: (event: AccountEvent) => void;
+  'account:quality': (event: PhoneNumberQualityUpdate) => void;
+  /** Messaging limit upgraded or downgraded (`phone_number_quality_update`). */
+  'account:limit': (event: PhoneNumberQualityUpdate) => void;
+  'account:update': (event: AccountUpdate) => void;
+  'account:alert': (event: AccountAlert) => void;
+  'account:review': (event: AccountReviewUpdate) => void;
+  'account:capability': (event: BusinessCapabilityUpdate) => void;
+  'account:name': (event: PhoneNumberNameUpdate) => void;
+  template: (event: TemplateEvent) => void;
+  'template:status': (event: TemplateStatusUpdate) => void;
+  'template:quality': (event: TemplateQualityUpdate) => void;
+  'template:category': (event: TemplateCategoryUpdate) => void;
+  /** A provided access token was fetched or rotated. */
+  'token:refreshed': (event: TokenRefreshedEvent) => void;
+  /** Graph rejected the access token (code 190), after one refresh when a provider is configured. */
+  'token:invalid': (err: import('./errors').WhatsAppError) => void;
+  /** An outbox entry was sent (see `outbox` in the client config). */
+  'outbox:sent': (entry: import('./outbox').OutboxEntry) => void;
+  /** An outbox entry failed for good and will not be retried. */
+  'outbox:failed': (event: OutboxFailedEvent) => void;
   error: (err: Error) => void;
 }
@@ -0,0 +1,173 @@
+/**
+ * Graph resumable upload sessions (`/{app-id}/uploads`). The returned handle
+ * is what profile pictures and template header examples expect.
+ *
+ * Exposed as `client.uploads` — not meant to be constructed directly.
+ *
+ * @module uploads
+ */
+
+import { promises as fs } from 'fs';
+
+import { AppIdNotConfiguredError, UploadInterruptedError, WhatsAppError } from './errors';
+import type { HttpClient } from './http';
+import type { ResumableUploadOptions, ResumableUploadResult, UploadSource } from './types';
+
+const DEFAULT_MAX_RESUME_ATTEMPTS = 3;
+
+/**
+ * Upload files through resumable upload sessions.
+ *
+ * @example
+ * ```ts
+ * const { handle } = await client.uploads.upload({ path: './header.mp4' }, {
+ *   mimeType: 'video/mp4',
+ *   chunkSize: 4 * 1024 * 1024,
+ *   onProgress: (p) => console.log(`${p.uploadedBytes}/${p.totalBytes}`),
+ * });
+ * await client.templates.create({
+ *   name: 'promo', language: 'en_US', category: 'MARKETING',
+ *   components: [{ type: 'HEADER', format: 'VIDEO', example: { header_handle: [handle] } }, …],
+ * });
+ * ```
+ */
+export class UploadsApi {
+  private readonly http: HttpClient;
+  private readonly baseUrl: string;
+  private readonly appId?: string;
+
+  /** @internal */
+  constructor(http: HttpClient, baseUrl: string, appId?: string) {
+    this.http = http;
+    this.baseUrl = baseUrl;
+    this.appId = appId;
+  }
+
+  /**
+   * Open an upload session.
+   *
+   * @param opts - Size and MIME type of the file, and an optional name.
+   * @returns The session ID (`upload:…`).
+   */
+  async createSession(opts: { fileLength: number; fileType: string; fileName?: string }): Promise<string> {
+    if (!this.appId) throw new AppIdNotConfiguredError();
+    const query = new URLSearchParams({ file_length: String(opts.fileLength), file_type: opts.fileType });
+    if (opts.fileName) query.set('file_name', opts.fileName);
+
+    const res = await this.http.request<{ id?: string }>(`${this.baseUrl}/${this.appId}/uploads?${query.toString()}`, {
+      method: 'POST',
+    });
+    if (!res?.id) throw new WhatsAppError('No upload session ID in response', 0, res);
+    return res.id;
+  }
+
+  /**
+   * Read how many bytes of a session the server has received.
+   *
+   * @param sessionId - The session ID returned by {@link createSession}.
+   */
+  async getOffset(sessionId: string): Promise<number> {
+    const res = await this.http.request<{ file_offset?: number }>(`${this.baseUrl}/${sessionId}`, {
+      method: 'GET',
+      // Upload sessions expect the `OAuth` scheme rather than `Bearer`.
+      authScheme: 'OAuth',
+    });
+    return Number(res?.file_offset ?? 0);
+  }
+
+  /**
+   * Upload a file and return its handle. After a retryable failure (rate
+   * limit, 5xx, network error) or a chunk that did not advance the server
+   * offset, the offset is re‑read and the upload continues from there. Once
+   * the resume attempts are exhausted, or on an error retrying cannot fix, an
+   * {@link UploadInterruptedError} carries the session ID to resume later.
+   *
+   * @param source - Bytes in memory, or `{ path }` to stream from disk.
+   * @param opts - MIME type, chunk size, progress callback, session to resume.
+   */
+  async upload(source: UploadSource, opts: ResumableUploadOptions): Promise<ResumableUploadResult> {
+    const file = await openSource(source);
+    try {
+      const totalBytes = file.size;
+      const chunkSize = opts.chunkSize && opts.chunkSize > 0 ? opts.chunkSize : totalBytes;
+      const maxResumeAttempts = opts.maxResumeAttempts ?? DEFAULT_MAX_RESUME_ATTEMPTS;
+
+      const sessionId =
+        opts.sessionId ??
+        (await this.createSession({ fileLength: totalBytes, fileType: opts.mimeType, fileName: opts.fileName }));
+      let offset = opts.sessionId ? await this.getOffset(sessionId) : 0;
+      let resumes = 0;
+      opts.onProgress?.({ sessionId, uploadedBytes: offset, totalBytes });
+
+      for (;;) {
+        const start = offset;
+        const end = Math.min(offset + chunkSize, totalBytes);
+        try {
+          const chunk = await file.read(offset, end);
+          const res = await this.http.request<{ h?: string }>(`${this.baseUrl}/${sessionId}`, {
+            method: 'POST',
+            authScheme: 'OAuth',
+            headers: { file_offset: String(offset) },
+            body: chunk,
+          });
+          if (res?.h) {
+            opts.onProgress?.({ sessionId, uploadedBytes: totalBytes, totalBytes });
+            return { handle: res.h, sessionId };
+          }
+          // Intermediate chunk — trust the server's offset rather than our own count.
+          offset = await this.getOffset(sessionId);
+          opts.onProgress?.({ sessionId, uploadedBytes: offset, totalBytes });
+          if (offset >= totalBytes) throw new WhatsAppError('No file handle in upload response', 0, res);
+          if (offset > start) continue;
+          // Accepted but not stored: counts as a failed attempt so the loop cannot spin forever.
+          if (resumes >= maxResumeAttempts) {
+            const stalled = new WhatsAppError(`Upload offset did not advance past byte ${offset}`, 0, res);
+            throw new UploadInterruptedError(sessionId, offset, stalled);
+          }
+          resumes++;
+        } catch (err: unknown) {
+          if (err instanceof UploadInterruptedError) throw err;
+          const retryable = err instanceof WhatsAppError && err.isRetryable;
+          if (!retryable || resumes >= maxResumeAttempts) throw new UploadInterruptedError(sessionId, offset, err);
+          resumes++;
+          try {
+            offset = await this.getOffset(sessionId);
+          } catch (offsetErr: unknown) {
+            throw new UploadInterruptedError(sessionId, offset, offsetErr);
+          }
+        }
+      }
+    } finally {
+      await file.close();
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+interface OpenSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array<ArrayBuffer>>;
+  close(): Promise<void>;
+}
+
+async function openSource(source: UploadSource): Promise<OpenSource> {
+  if (!('path' in source)) {
+    const bytes = new Uint8Array(source);
+    return { size: bytes.byteLength, read: async (start, end) => bytes.subarray(start, end), close: async () => {} };
+  }
+
+  const handle = await fs.open(source.path, 'r');
+  const { size } = await handle.stat();
+  return {
+    size,
+    async read(start, end) {
+      const buf = new Uint8Array(end - start);
+      const { bytesRead } = await handle.read(buf, 0, buf.byteLength, start);
+      return buf.subarray(0, bytesRead);
+    },
+    close: () => handle.close(),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Local checks for interactive messages whose Cloud API rules are easy to
+ * break and only surface as an API error (or not at all).
+ *
+ * @module validate-interactive
+ * @internal
+ */
+
+import { InteractiveValidationError } from './errors';
+import type { Interactive } from './types';
+
+/** Cloud API limits for multi‑product messages. */
+const MAX_PRODUCT_SECTIONS = 10;
+const MAX_PRODUCT_ITEMS = 30;
+
+/**
+ * Validate an interactive message before sending.
+ *
+ * @throws {InteractiveValidationError} listing every problem found.
+ * @internal
+ */
+export function validateInteractive(interactive: Interactive): void {
+  const issues: string[] = [];
+
+  switch (interactive.type) {
+    case 'product':
+      if (!interactive.action?.catalog_id) issues.push('action.catalog_id is required');
+      if (!interactive.action?.product_retailer_id) issues.push('action.product_retailer_id is required');
+      break;
+
+    case 'product_list': {
+      if (interactive.header?.type !== 'text' || !interactive.header.text) {
+        issues.push('a text header is required');
+      }
+      if (!interactive.body?.text) issues.push('body.text is required');
+      if (!interactive.action?.catalog_id) issues.push('action.catalog_id is required');
+      const sections = interactive.action?.sections ?? [];
+      if (sections.length === 0 || sections.length > MAX_PRODUCT_SECTIONS) {
+        issues.push(`between 1 and ${MAX_PRODUCT_SECTIONS} sections are required (got ${sections.length})`);
+      }
+      let total = 0;
+      sections.forEach((section, i) => {
+        if (sections.length > 1 && !section.title) issues.push(`sections[${i}].title is required with multiple sections`);
+        if (!section.product_items?.length) issues.push(`sections[${i}] has no product_items`);
+        for (const item of section.product_items ?? []) {
+          total++;
+          if (!item.product_retailer_id) issues.push(`sections[${i}] has an item without product_retailer_id`);
+        }
+      });
+      if (total > MAX_PRODUCT_ITEMS) issues.push(`at most ${MAX_PRODUCT_ITEMS} products are allowed (got ${total})`);
+      break;
+    }
+
+    case 'catalog_message':
+      if (!interactive.body?.text) issues.push('body.text is required');
+      break;
+
+    case 'order_details': {
+      const params = interactive.action?.parameters;
+      const order = params?.order;
+      if (!params?.reference_id) issues.push('reference_id is required');
+      if (!params?.payment_configuration) issues.push('payment_configuration is required');
+      if (!order?.items?.length) issues.push('order.items must not be empty');
+      if (order && params) {
+        const amounts = [order.subtotal, order.tax, order.shipping, order.discount, params.total_amount];
+        const offsets = new Set(amounts.filter((a) => a !== undefined).map((a) => a.offset));
+        if (offsets.size > 1) issues.push('all amounts must use the same offset');
+        const expected =
+          (order.subtotal?.value ?? 0) +
+          (order.tax?.value ?? 0) +
+          (order.shipping?.value ?? 0) -
+          (order.discount?.value ?? 0);
+        if (params.total_amount?.value !== expected) {
+          issues.push(`total_amount (${params.total_amount?.value}) must equal subtotal + tax + shipping - discount (${expected})`);
+        }
+      }
+      break;
+    }
+
+    case 'order_status':
+      if (!interactive.action?.parameters?.reference_id) issues.push('reference_id is required');
+      break;
+
+    default:
+      break;
+  }
+
+  if (issues.length) throw new InteractiveValidationError(interactive.type, issues);
+}
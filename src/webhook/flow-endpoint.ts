@@ -0,0 +1,273 @@
+/**
+ * Data‑exchange endpoint for WhatsApp Flows.
+ *
+ * Flows with a data endpoint POST an encrypted payload on every screen
+ * transition: the AES key is wrapped with your RSA public key (OAEP / SHA‑256),
+ * the body is AES‑GCM encrypted, and the response must be encrypted with the
+ * same key and the bit‑flipped IV.
+ *
+ * @module webhook/flow-endpoint
+ */
+
+import crypto from 'crypto';
+
+import { verifyWebhookSignature } from '../client';
+import { FlowEndpointError } from '../errors';
+
+import type { ExpressLikeRequest, ExpressLikeResponse } from './index';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Body POSTed by WhatsApp to the Flow endpoint. */
+export interface FlowEncryptedRequest {
+  encrypted_flow_data: string;
+  encrypted_aes_key: string;
+  initial_vector: string;
+}
+
+/** `action` of a decrypted Flow endpoint request. */
+export type FlowEndpointAction = 'INIT' | 'BACK' | 'data_exchange' | 'ping';
+
+/**
+ * Screen name → data shape. Used to type the screens a handler may navigate
+ * to, e.g. `{ APPOINTMENT: { slots: string[] }; DETAILS: { name?: string } }`.
+ */
+export type FlowScreenMap = Record<string, Record<string, unknown>>;
+
+/** Decrypted Flow endpoint request. */
+export interface FlowEndpointRequest {
+  version: string;
+  action: FlowEndpointAction;
+  /** Screen the request was sent from (absent on `INIT` and `ping`). */
+  screen?: string;
+  /** Payload sent by the screen (`data_exchange`) or an error notification. */
+  data?: Record<string, unknown>;
+  /** Token passed when the Flow was sent (absent on `ping`). */
+  flow_token?: string;
+}
+
+/** Navigate to a screen with its data. */
+export type FlowScreenResponse<S extends FlowScreenMap = FlowScreenMap> = {
+  [K in keyof S & string]: { screen: K; data: S[K] };
+}[keyof S & string];
+
+/** Close the Flow and send the response message to the chat. */
+export interface FlowCloseResponse {
+  screen: 'SUCCESS';
+  data: {
+    extension_message_response: {
+      params: { flow_token: string } & Record<string, unknown>;
+    };
+  };
+}
+
+/** Response returned by a Flow endpoint handler (encrypted before sending). */
+export type FlowEndpointResponse<S extends FlowScreenMap = FlowScreenMap> =
+  | FlowScreenResponse<S>
+  | FlowCloseResponse
+  | { data: Record<string, unknown> };
+
+/** Handler for one Flow action. */
+export type FlowActionHandler<S extends FlowScreenMap = FlowScreenMap> = (
+  request: FlowEndpointRequest,
+) => FlowEndpointResponse<S> | Promise<FlowEndpointResponse<S>>;
+
+/** Handlers routed by request `action`. */
+export interface FlowEndpointHandlers<S extends FlowScreenMap = FlowScreenMap> {
+  /** The Flow was opened — return the first screen. */
+  init?: FlowActionHandler<S>;
+  /** A screen submitted data — return the next screen (or close the Flow). */
+  dataExchange?: FlowActionHandler<S>;
+  /** The user pressed back on a screen with `refresh_on_back` enabled. */
+  back?: FlowActionHandler<S>;
+  /**
+   * WhatsApp reported that a previous response was invalid
+   * (`data.error` / `data.error_message`). Acknowledged automatically when omitted.
+   */
+  errorNotification?: (request: FlowEndpointRequest) => void | Promise<void>;
+}
+
+/** Options for {@link createFlowEndpointHandler}. */
+export interface FlowEndpointHandlerOptions<S extends FlowScreenMap = FlowScreenMap> {
+  /** PEM private key matching the public key uploaded for the phone number. */
+  privateKey: string | Buffer;
+  /** Passphrase of the private key, if it is encrypted. */
+  passphrase?: string;
+  /**
+   * Meta app secret. When set, `x-hub-signature-256` is required and verified;
+   * failures are answered with HTTP 432.
+   */
+  appSecret?: string;
+  /** Handlers routed by request `action`. `ping` is answered automatically. */
+  handlers: FlowEndpointHandlers<S>;
+  /** Called on errors (signature, decryption and handler failures). */
+  onError?: (err: Error) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Handler
+// ---------------------------------------------------------------------------
+
+/** HTTP status telling WhatsApp to re‑fetch the public key. */
+const DECRYPTION_FAILED_STATUS = 421;
+/** HTTP status for a request signature mismatch. */
+const INVALID_SIGNATURE_STATUS = 432;
+
+/**
+ * Create an Express‑compatible request handler for a Flow data endpoint.
+ *
+ * Decrypts the request, verifies the signature (when `appSecret` is set),
+ * answers health‑check pings, routes by `action` and encrypts the response.
+ * Throw a {@link FlowEndpointError} from a handler to answer with a specific
+ * HTTP status (e.g. `427` for an expired flow token).
+ *
+ * @example
+ * ```ts
+ * type Screens = { SLOTS: { slots: string[] }; DONE: { message: string } };
+ *
+ * app.post('/flow', express.raw({ type: '*\/*' }), createFlowEndpointHandler<Screens>({
+ *   privateKey: fs.readFileSync('flow-private.pem'),
+ *   passphrase: process.env.FLOW_KEY_PASSPHRASE,
+ *   appSecret: process.env.APP_SECRET,
+ *   handlers: {
+ *     init: () => ({ screen: 'SLOTS', data: { slots: ['10:00', '11:00'] } }),
+ *     dataExchange: (req) => ({ screen: 'DONE', data: { message: `Booked ${String(req.data?.slot)}` } }),
+ *   },
+ * }));
+ * ```
+ */
+export function createFlowEndpointHandler<S extends FlowScreenMap = FlowScreenMap>(
+  opts: FlowEndpointHandlerOptions<S>,
+): (req: ExpressLikeRequest, res: ExpressLikeResponse) => Promise<void> {
+  const privateKey = crypto.createPrivateKey({ key: opts.privateKey, passphrase: opts.passphrase });
+  const fail = (res: ExpressLikeResponse, status: number, err: Error, body = err.message): void => {
+    opts.onError?.(err);
+    res.status(status).send(body);
+  };
+
+  return async (req: ExpressLikeRequest, res: ExpressLikeResponse) => {
+    const rawBody: Buffer | string = typeof req.body === 'string' || Buffer.isBuffer(req.body)
+      ? req.body
+      : JSON.stringify(req.body ?? {});
+
+    if (opts.appSecret) {
+      const signature = req.headers['x-hub-signature-256'];
+      if (typeof signature !== 'string' || !verifyWebhookSignature(rawBody, signature, opts.appSecret)) {
+        fail(res, INVALID_SIGNATURE_STATUS, new Error('Invalid Flow request signature'));
+        return;
+      }
+    }
+
+    let decrypted: DecryptedFlowRequest;
+    try {
+      const body = JSON.parse(typeof rawBody === 'string' ? rawBody : rawBody.toString('utf-8')) as FlowEncryptedRequest;
+      decrypted = decryptFlowRequest(body, privateKey);
+    } catch (err: unknown) {
+      fail(res, DECRYPTION_FAILED_STATUS, new Error(`Failed to decrypt Flow request: ${errorMessage(err)}`));
+      return;
+    }
+
+    try {
+      const response = await route(opts.handlers, decrypted.request);
+      res.setHeader?.('Content-Type', 'text/plain');
+      res.status(200).send(encryptFlowResponse(response, decrypted.aesKey, decrypted.iv));
+    } catch (err: unknown) {
+      if (err instanceof FlowEndpointError) {
+        fail(res, err.statusCode, err);
+      } else {
+        // Details go to `onError` only — never back to the caller.
+        fail(res, 500, err instanceof Error ? err : new Error(String(err)), 'Internal Server Error');
+      }
+    }
+  };
+}
+
+async function route<S extends FlowScreenMap>(
+  handlers: FlowEndpointHandlers<S>,
+  request: FlowEndpointRequest,
+): Promise<FlowEndpointResponse<S>> {
+  if (request.action === 'ping') {
+    return { data: { status: 'active' } };
+  }
+  if (request.data && 'error' in request.data) {
+    await handlers.errorNotification?.(request);
+    return { data: { acknowledged: true } };
+  }
+
+  const handler = {
+    INIT: handlers.init,
+    BACK: handlers.back,
+    data_exchange: handlers.dataExchange,
+  }[request.action];
+  if (!handler) {
+    throw new FlowEndpointError(`No handler for Flow action "${String(request.action)}"`, 500);
+  }
+  return handler(request);
+}
+
+// ---------------------------------------------------------------------------
+// Crypto helpers
+// ---------------------------------------------------------------------------
+
+/** Result of {@link decryptFlowRequest}: the request plus what is needed to encrypt the response. */
+export interface DecryptedFlowRequest {
+  request: FlowEndpointRequest;
+  aesKey: Buffer;
+  iv: Buffer;
+}
+
+/**
+ * Decrypt a Flow endpoint request body.
+ *
+ * @throws If the AES key cannot be unwrapped or the payload fails authentication.
+ */
+export function decryptFlowRequest(
+  body: FlowEncryptedRequest,
+  privateKey: crypto.KeyObject | string | Buffer,
+  passphrase?: string,
+): DecryptedFlowRequest {
+  const key = privateKey instanceof crypto.KeyObject
+    ? privateKey
+    : crypto.createPrivateKey({ key: privateKey, passphrase });
+
+  const aesKey = crypto.privateDecrypt(
+    { key, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(body.encrypted_aes_key, 'base64'),
+  );
+  const iv = Buffer.from(body.initial_vector, 'base64');
+  const data = Buffer.from(body.encrypted_flow_data, 'base64');
+  const tag = data.subarray(-16);
+  const ciphertext = data.subarray(0, -16);
+
+  const decipher = crypto.createDecipheriv(aesAlgorithm(aesKey), aesKey, iv);
+  decipher.setAuthTag(tag);
+  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+
+  return { request: JSON.parse(plaintext) as FlowEndpointRequest, aesKey, iv };
+}
+
+/**
+ * Encrypt a Flow endpoint response with the request's AES key and the
+ * bit‑flipped IV.
+ *
+ * @returns The base64 string to send as the response body.
+ */
+export function encryptFlowResponse(response: unknown, aesKey: Buffer, iv: Buffer): string {
+  const flippedIv = Buffer.from(iv.map((b) => ~b & 0xff));
+  const cipher = crypto.createCipheriv(aesAlgorithm(aesKey), aesKey, flippedIv);
+  return Buffer.concat([
+    cipher.update(JSON.stringify(response), 'utf-8'),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]).toString('base64');
+}
+
+function aesAlgorithm(key: Buffer): crypto.CipherGCMTypes {
+  return `aes-${key.length * 8}-gcm` as crypto.CipherGCMTypes;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
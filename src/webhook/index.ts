@@ -2,7 +2,7 @@
  * Webhook utilities subpath export.
  *
  * ```ts
- * import { parseIncoming, verifyWebhookSignature, createExpressMiddleware } from '@whatsapp-wrapper-ultraguay/whatsapp-wrapper-ultraguay/webhook';
+ * import { parseIncoming, verifyWebhookSignature, createExpressMiddleware, createFlowEndpointHandler } from '@whatsapp-wrapper-ultraguay/whatsapp-wrapper-ultraguay/webhook';
  * ```
  *
  * @module webhook
@@ -10,14 +10,50 @@
 
 import crypto from 'crypto';
 
-import { parseIncoming, parseStatuses } from '../parse-incoming';
-import type { WebhookPayload, InboundMessage, StatusUpdate } from '../types';
-
-export { parseIncoming, parseStatuses } from '../parse-incoming';
+import {
+  parseAccountEvents,
+  parseIncoming,
+  parsePaymentStatuses,
+  parseStatuses,
+  parseTemplateEvents,
+} from '../parse-incoming';
+import type {
+  WebhookPayload,
+  InboundMessage,
+  StatusUpdate,
+  PaymentStatusUpdate,
+  AccountEvent,
+  TemplateEvent,
+} from '../types';
+
+export {
+  parseIncoming,
+  parseStatuses,
+  parsePaymentStatuses,
+  parseAccountEvents,
+  parseTemplateEvents,
+} from '../parse-incoming';
 export { verifyWebhookSignature } from '../client';
+export { FlowEndpointError } from '../errors';
+export {
+  createFlowEndpointHandler,
+  decryptFlowRequest,
+  encryptFlowResponse,
+  type DecryptedFlowRequest,
+  type FlowActionHandler,
+  type FlowCloseResponse,
+  type FlowEncryptedRequest,
+  type FlowEndpointAction,
+  type FlowEndpointHandlerOptions,
+  type FlowEndpointHandlers,
+  type FlowEndpointRequest,
+  type FlowEndpointResponse,
+  type FlowScreenMap,
+  type FlowScreenResponse,
+} from './flow-endpoint';
 
 // Re‑export useful types.
-export type { WebhookPayload, InboundMessage, StatusUpdate };
+export type { WebhookPayload, InboundMessage, StatusUpdate, PaymentStatusUpdate, AccountEvent, TemplateEvent };
 
 /**
  * Options for the Express webhook middleware helper.
@@ -32,6 +68,12 @@ export interface ExpressMiddlewareOptions {
   onMessage?: (msg: InboundMessage) => void | Promise<void>;
   /** Called for every status update. */
   onStatus?: (status: StatusUpdate) => void | Promise<void>;
+  /** Called for every payment status update (`order_details` checkouts). */
+  onPayment?: (payment: PaymentStatusUpdate) => void | Promise<void>;
+  /** Called for every account‑level event (quality, limits, alerts, reviews, …). */
+  onAccountEvent?: (event: AccountEvent) => void | Promise<void>;
+  /** Called for every template status, quality or category update. */
+  onTemplateEvent?: (event: TemplateEvent) => void | Promise<void>;
   /** Called on errors (signature failures, parse errors, handler errors). */
   onError?: (err: Error) => void;
   /** The verify‑token string used during webhook registration (GET challenge). */
@@ -102,6 +144,9 @@ export function createExpressMiddleware(opts: ExpressMiddlewareOptions): (req: E
 
       const messages = parseIncoming(json);
       const statuses = parseStatuses(json);
+      const payments = parsePaymentStatuses(json);
+      const accountEvents = parseAccountEvents(json);
+      const templateEvents = parseTemplateEvents(json);
 
       for (const msg of messages) {
         Promise.resolve(opts.onMessage?.(msg)).catch((e: unknown) =>
@@ -113,6 +158,21 @@ export function createExpressMiddleware(opts: ExpressMiddlewareOptions): (req: E
           opts.onError?.(e instanceof Error ? e : new Error(String(e))),
         );
       }
+      for (const p of payments) {
+        Promise.resolve(opts.onPayment?.(p)).catch((e: unknown) =>
+          opts.onError?.(e instanceof Error ? e : new Error(String(e))),
+        );
+      }
+      for (const a of accountEvents) {
+        Promise.resolve(opts.onAccountEvent?.(a)).catch((e: unknown) =>
+          opts.onError?.(e instanceof Error ? e : new Error(String(e))),
+        );
+      }
+      for (const t of templateEvents) {
+        Promise.resolve(opts.onTemplateEvent?.(t)).catch((e: unknown) =>
+          opts.onError?.(e instanceof Error ? e : new Error(String(e))),
+        );
+      }
 
       res.status(200).send('OK');
     } catch (err: unknown) {
@@ -138,6 +198,7 @@ export interface ExpressLikeRequest {
 export interface ExpressLikeResponse {
   status(code: number): ExpressLikeResponse;
   send(body?: string): void;
+  setHeader?(name: string, value: string): unknown;
 }
 
 function getQuery(req: ExpressLikeRequest, key: string): string | undefined {
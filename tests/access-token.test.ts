@@ -0,0 +1,123 @@
+import { WhatsAppClient } from '../src/client';
+import { AccessTokenExpiredError } from '../src/errors';
+import type { TokenRefreshedEvent } from '../src/types';
+
+/**
+ * Test suite for access‑token providers: caching, refresh ahead of expiry and
+ * the single retry after a 190 rejection.
+ */
+
+const INVALID_TOKEN = {
+  error: { message: 'Error validating access token', type: 'OAuthException', code: 190, fbtrace_id: 'x' },
+};
+
+let authHeaders: string[] = [];
+/** Tokens Graph should reject with 190. */
+let rejected = new Set<string>();
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  authHeaders = [];
+  rejected = new Set();
+  globalThis.fetch = jest.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const auth = new Headers(init?.headers).get('Authorization') ?? '';
+    authHeaders.push(auth);
+    const invalid = rejected.has(auth.replace(/^\w+ /, ''));
+    return {
+      ok: !invalid,
+      status: invalid ? 401 : 200,
+      headers: new Headers(),
+      text: async () => JSON.stringify(invalid ? INVALID_TOKEN : { messages: [{ id: 'wamid.1' }] }),
+    } as Response;
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function createClient(accessToken: ConstructorParameters<typeof WhatsAppClient>[0]['accessToken']) {
+  const client = new WhatsAppClient({ accessToken, phoneNumberId: 'phone', http: { maxRetries: 0 } });
+  const refreshed: TokenRefreshedEvent[] = [];
+  const invalid: Error[] = [];
+  client.on('token:refreshed', (e) => refreshed.push(e));
+  client.on('token:invalid', (e) => invalid.push(e));
+  return { client, refreshed, invalid };
+}
+
+describe('access token provider', () => {
+  it('fetches the token once and shares it between concurrent requests', async () => {
+    const provider = jest.fn(async () => 'tok-1');
+    const { client, refreshed } = createClient(provider);
+
+    await Promise.all([client.sendText('1', 'a'), client.sendText('2', 'b')]);
+    await client.sendText('3', 'c');
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(authHeaders).toEqual(['Bearer tok-1', 'Bearer tok-1', 'Bearer tok-1']);
+    expect(refreshed).toEqual([{ reason: 'initial', expiresAt: undefined }]);
+  });
+
+  it('refreshes the token ahead of its expiry', async () => {
+    let n = 0;
+    const expiresAt = new Date(Date.now() + 60_000); // inside the default 5 min margin
+    const { client, refreshed } = createClient(async () => ({ token: `tok-${++n}`, expiresAt }));
+
+    await client.sendText('1', 'a');
+    await client.sendText('1', 'b');
+
+    expect(authHeaders).toEqual(['Bearer tok-1', 'Bearer tok-2']);
+    expect(refreshed.map((e) => e.reason)).toEqual(['initial', 'expiring']);
+    expect(refreshed[1].expiresAt).toBe(expiresAt.getTime());
+  });
+
+  it('retries once with a fresh token after a 190', async () => {
+    let n = 0;
+    rejected.add('tok-1');
+    const { client, refreshed, invalid } = createClient(async () => `tok-${++n}`);
+
+    await expect(client.sendText('1', 'a')).resolves.toEqual({ wamid: 'wamid.1' });
+
+    expect(authHeaders).toEqual(['Bearer tok-1', 'Bearer tok-2']);
+    expect(refreshed.map((e) => e.reason)).toEqual(['initial', 'rejected']);
+    expect(invalid).toEqual([]);
+  });
+
+  it('emits token:invalid when the fresh token is rejected too', async () => {
+    rejected.add('tok');
+    const { client, invalid } = createClient(async () => 'tok');
+
+    await expect(client.sendText('1', 'a')).rejects.toBeInstanceOf(AccessTokenExpiredError);
+
+    expect(authHeaders).toHaveLength(2);
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0]).toBeInstanceOf(AccessTokenExpiredError);
+  });
+
+  it('calls the provider again after it threw synchronously', async () => {
+    const provider = jest
+      .fn<Promise<string>, []>()
+      .mockImplementationOnce(() => {
+        throw new Error('vault unavailable');
+      })
+      .mockResolvedValue('tok-1');
+    const { client } = createClient(provider);
+
+    await expect(client.sendText('1', 'a')).rejects.toThrow('vault unavailable');
+    await expect(client.sendText('1', 'b')).resolves.toEqual({ wamid: 'wamid.1' });
+
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(authHeaders).toEqual(['Bearer tok-1']);
+  });
+
+  it('does not retry a static token', async () => {
+    rejected.add('static');
+    const { client, invalid } = createClient('static');
+
+    await expect(client.sendText('1', 'a')).rejects.toBeInstanceOf(AccessTokenExpiredError);
+
+    expect(authHeaders).toEqual(['Bearer static']);
+    expect(invalid).toHaveLength(1);
+  });
+});
@@ -0,0 +1,199 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { Broadcast, type BroadcastProgress } from '../src/broadcast';
+import { RateLimitError, RecipientNotOnWhatsAppError, WhatsAppError } from '../src/errors';
+import { MockWhatsAppClient } from '../src/testing';
+import type { SendResponse } from '../src/types';
+
+/**
+ * Test suite for `Broadcast` (`client.broadcast()`).
+ */
+
+/** A send whose completion the test controls. */
+function deferredSends() {
+  const pending = new Map<string, { resolve: (r: SendResponse) => void; reject: (e: Error) => void }>();
+  const factory = jest.fn(
+    (to: string) => new Promise<SendResponse>((resolve, reject) => pending.set(to, { resolve, reject })),
+  );
+  return { pending, factory };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+describe('Broadcast', () => {
+  it('sends through the client and reports each recipient', async () => {
+    const client = new MockWhatsAppClient();
+    const progress: BroadcastProgress[] = [];
+
+    const run = client.broadcast(['111', '222', '111', '333'], async (to) => {
+      if (to === '222') {
+        throw new RecipientNotOnWhatsAppError('Message undeliverable', 400, undefined, undefined, { code: 131026 });
+      }
+      return client.sendText(to, 'Sale starts today');
+    });
+    run.on('progress', (p) => progress.push(p));
+    const report = await run.done;
+
+    expect(client.callsFor('sendText').map((c) => c.args[0])).toEqual(['111', '333']);
+    expect(report).toMatchObject({ total: 3, sent: 2, failed: 1, remaining: 0, cancelled: false });
+    expect(report.results.map((r) => [r.recipient, r.status])).toEqual([
+      ['111', 'sent'],
+      ['222', 'failed'],
+      ['333', 'sent'],
+    ]);
+    expect(report.results[0].wamid).toMatch(/^wamid\./);
+    expect(report.results[1].error).toEqual({
+      name: 'RecipientNotOnWhatsAppError',
+      message: 'Message undeliverable',
+      code: 131026,
+      isRetryable: false,
+    });
+    expect(progress.at(-1)).toEqual({ total: 3, sent: 2, failed: 1, remaining: 0 });
+  });
+
+  it('treats differently formatted numbers as one recipient', async () => {
+    const factory = jest.fn(async (to: string) => ({ wamid: `wamid.${to}` }));
+    const report = await new Broadcast(['+1 555 0100', '15550100', '1-555-0101'], factory).done;
+
+    expect(factory.mock.calls.map(([to]) => to)).toEqual(['+1 555 0100', '1-555-0101']);
+    expect(report).toMatchObject({ total: 2, sent: 2 });
+  });
+
+  it('bounds concurrency and supports pause, resume and cancel', async () => {
+    const { pending, factory } = deferredSends();
+    const run = new Broadcast(['a', 'b', 'c', 'd', 'e'], factory, { concurrency: 2 });
+    await flush();
+    expect([...pending.keys()]).toEqual(['a', 'b']);
+
+    run.pause();
+    pending.get('a')?.resolve({ wamid: 'wamid.a' });
+    await flush();
+    expect(factory).toHaveBeenCalledTimes(2);
+
+    run.resume();
+    await flush();
+    expect([...pending.keys()]).toEqual(['a', 'b', 'c']);
+
+    run.cancel();
+    pending.get('b')?.resolve({ wamid: 'wamid.b' });
+    pending.get('c')?.resolve({ wamid: 'wamid.c' });
+    const report = await run.done;
+
+    expect(factory).toHaveBeenCalledTimes(3);
+    expect(report).toMatchObject({ total: 5, sent: 3, failed: 0, remaining: 2, cancelled: true });
+  });
+
+  it('holds the run back after a rate limit error and retries the recipient', async () => {
+    jest.useFakeTimers();
+    try {
+      let limited = false;
+      const factory = jest.fn(async (to: string) => {
+        if (to === 'a' && !limited) {
+          limited = true;
+          throw new RateLimitError('Rate limit hit', 429, undefined, 2, { code: 130429 });
+        }
+        return { wamid: `wamid.${to}` };
+      });
+      const run = new Broadcast(['a', 'b'], factory, { concurrency: 1 });
+
+      await jest.advanceTimersByTimeAsync(1_000);
+      expect(factory.mock.calls.map(([to]) => to)).toEqual(['a']);
+
+      await jest.advanceTimersByTimeAsync(1_000);
+      const report = await run.done;
+      expect(factory.mock.calls.map(([to]) => to)).toEqual(['a', 'a', 'b']);
+      expect(report.results[0]).toMatchObject({ status: 'sent', attempts: 2 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  describe('checkpointPath', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'broadcast-'));
+    });
+
+    afterEach(async () => {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    it('resumes an interrupted run without sending twice', async () => {
+      const checkpointPath = path.join(dir, 'run.jsonl');
+      const recipients = ['a', 'b', 'c'];
+
+      const first = deferredSends();
+      const interrupted = new Broadcast(recipients, first.factory, { concurrency: 1, checkpointPath });
+      while (!first.pending.has('a')) await flush();
+      interrupted.cancel();
+      first.pending.get('a')?.resolve({ wamid: 'wamid.a' });
+      expect(await interrupted.done).toMatchObject({ sent: 1, cancelled: true });
+
+      const factory = jest.fn(async (to: string) => ({ wamid: `wamid.${to}` }));
+      const report = await new Broadcast(recipients, factory, { checkpointPath }).done;
+
+      expect(factory.mock.calls.map(([to]) => to)).toEqual(['b', 'c']);
+      expect(report).toMatchObject({ total: 3, sent: 3, cancelled: false });
+      expect(report.results[0]).toMatchObject({ recipient: 'a', wamid: 'wamid.a', resumed: true });
+      const lines = (await fs.promises.readFile(checkpointPath, 'utf-8')).trim().split('\n');
+      expect(lines.map((l) => (JSON.parse(l) as { recipient: string }).recipient)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('matches checkpointed recipients regardless of formatting', async () => {
+      const checkpointPath = path.join(dir, 'run.jsonl');
+      await new Broadcast(['+1 555 0100'], async () => ({ wamid: 'wamid.1' }), { checkpointPath }).done;
+
+      const factory = jest.fn(async (to: string) => ({ wamid: `wamid.${to}` }));
+      const report = await new Broadcast(['15550100'], factory, { checkpointPath }).done;
+
+      expect(factory).not.toHaveBeenCalled();
+      expect(report.results[0]).toMatchObject({ recipient: '15550100', wamid: 'wamid.1', resumed: true });
+    });
+
+    it('stops the run and emits error when the checkpoint cannot be written', async () => {
+      const checkpointPath = path.join(dir, 'run.jsonl');
+      const append = jest.spyOn(fs.promises, 'appendFile').mockRejectedValueOnce(new Error('disk full'));
+      try {
+        const factory = jest.fn(async (to: string) => ({ wamid: `wamid.${to}` }));
+        const run = new Broadcast(['a', 'b', 'c'], factory, { concurrency: 1, checkpointPath });
+        const errors: Error[] = [];
+        run.on('error', (err) => errors.push(err));
+
+        const report = await run.done;
+
+        expect(errors.map((e) => e.message)).toEqual(['disk full']);
+        expect(factory).toHaveBeenCalledTimes(1);
+        expect(report).toMatchObject({ total: 3, sent: 1, remaining: 2, cancelled: true });
+      } finally {
+        append.mockRestore();
+      }
+    });
+
+    it('retries recipients that failed with a retryable error', async () => {
+      const checkpointPath = path.join(dir, 'run.jsonl');
+      const recipients = ['a', 'b', 'c'];
+
+      const outage = await new Broadcast(
+        recipients,
+        async (to) => {
+          if (to === 'b') throw new WhatsAppError('Service unavailable', 503);
+          if (to === 'c') throw new RecipientNotOnWhatsAppError('Message undeliverable', 400, undefined, undefined, { code: 131026 });
+          return { wamid: `wamid.${to}` };
+        },
+        { checkpointPath },
+      ).done;
+      expect(outage).toMatchObject({ sent: 1, failed: 2 });
+
+      const factory = jest.fn(async (to: string) => ({ wamid: `wamid.${to}` }));
+      const report = await new Broadcast(recipients, factory, { checkpointPath }).done;
+
+      expect(factory.mock.calls.map(([to]) => to)).toEqual(['b']);
+      expect(report).toMatchObject({ total: 3, sent: 2, failed: 1 });
+      expect(report.results[1]).toMatchObject({ recipient: 'b', status: 'sent', wamid: 'wamid.b' });
+      expect(report.results[1].resumed).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { WhatsAppClient } from '../src/client';
+import { AppIdNotConfiguredError } from '../src/errors';
+
+/**
+ * Test suite for the business profile methods.
+ */
+
+const PHONE_ID = '123456789';
+const APP_ID = '555';
+const GRAPH = 'https://graph.facebook.com/v21.0';
+
+interface CapturedRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body: unknown;
+}
+
+let captured: CapturedRequest[] = [];
+let responses: unknown[] = [];
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  captured = [];
+  responses = [];
+  globalThis.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : init?.body;
+    captured.push({ url, method: init?.method ?? 'GET', headers: new Headers(init?.headers), body });
+    const next = responses.shift() ?? { success: true };
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => JSON.stringify(next),
+    } as Response;
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function createClient(appId?: string): WhatsAppClient {
+  return new WhatsAppClient({ accessToken: 'token', phoneNumberId: PHONE_ID, appId, http: { maxRetries: 0 } });
+}
+
+describe('business profile', () => {
+  it('getBusinessProfile requests every field by default', async () => {
+    responses.push({ data: [{ about: 'Hi', vertical: 'RETAIL', websites: ['https://example.com'] }] });
+    const profile = await createClient().getBusinessProfile();
+    expect(profile).toEqual({ about: 'Hi', vertical: 'RETAIL', websites: ['https://example.com'] });
+    expect(captured[0].url).toBe(
+      `${GRAPH}/${PHONE_ID}/whatsapp_business_profile?fields=about,address,description,email,profile_picture_url,websites,vertical`,
+    );
+  });
+
+  it('getBusinessProfile requests only the given fields', async () => {
+    responses.push({ data: [{ email: 'a@b.co' }] });
+    await createClient().getBusinessProfile(['email']);
+    expect(captured[0].url).toBe(`${GRAPH}/${PHONE_ID}/whatsapp_business_profile?fields=email`);
+  });
+
+  it('updateBusinessProfile posts the patch', async () => {
+    await createClient().updateBusinessProfile({ about: 'Open 9–5', vertical: 'RESTAURANT' });
+    expect(captured[0]).toMatchObject({
+      url: `${GRAPH}/${PHONE_ID}/whatsapp_business_profile`,
+      method: 'POST',
+      body: { messaging_product: 'whatsapp', about: 'Open 9–5', vertical: 'RESTAURANT' },
+    });
+  });
+
+  it('uploads a profile picture through a resumable upload session', async () => {
+    responses.push({ id: 'upload:abc' }, { h: '4::aW1hZ2U=' }, { success: true });
+    const file = Buffer.from('fake-jpeg');
+    await createClient(APP_ID).updateBusinessProfile({ profile_picture: { file, mimeType: 'image/jpeg' } });
+
+    expect(captured[0].url).toBe(`${GRAPH}/${APP_ID}/uploads?file_length=${file.byteLength}&file_type=image%2Fjpeg`);
+    expect(captured[1].url).toBe(`${GRAPH}/upload:abc`);
+    expect(captured[1].headers.get('Authorization')).toBe('OAuth token');
+    expect(captured[1].headers.get('file_offset')).toBe('0');
+    expect(captured[2].body).toEqual({ messaging_product: 'whatsapp', profile_picture_handle: '4::aW1hZ2U=' });
+  });
+
+  it('throws AppIdNotConfiguredError for a profile picture without appId', async () => {
+    await expect(
+      createClient().updateBusinessProfile({ profile_picture: { file: Buffer.from('x'), mimeType: 'image/png' } }),
+    ).rejects.toThrow(AppIdNotConfiguredError);
+    expect(captured).toHaveLength(0);
+  });
+});
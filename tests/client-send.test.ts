@@ -1,5 +1,5 @@
 import { WhatsAppClient } from '../src/client';
-import { WhatsAppError } from '../src/errors';
+import { InteractiveValidationError, WhatsAppError } from '../src/errors';
 
 /**
  * Test suite for WhatsAppClient send methods.
@@ -196,6 +196,71 @@ describe('WhatsAppClient send methods', () => {
     });
   });
 
+  it('sendTemplate with coupon code, limited-time offer and carousel', async () => {
+    const client = createClient();
+    await client.sendTemplate('123', 'summer_sale', {
+      components: [
+        {
+          type: 'limited_time_offer',
+          parameters: [{ type: 'limited_time_offer', limited_time_offer: { expiration_time_ms: 1_700_000_000_000 } }],
+        },
+        { type: 'body', parameters: [{ type: 'text', text: 'Ana', parameter_name: 'first_name' }] },
+        { type: 'button', sub_type: 'copy_code', index: 0, parameters: [{ type: 'coupon_code', coupon_code: 'SAVE10' }] },
+        {
+          type: 'carousel',
+          cards: [
+            {
+              card_index: 0,
+              components: [
+                { type: 'header', parameters: [{ type: 'image', image: { id: 'img1' } }] },
+                { type: 'button', sub_type: 'quick_reply', index: '0', parameters: [{ type: 'payload', payload: 'buy_1' }] },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    const template = captured[0].body.template as { components: Array<Record<string, unknown>> };
+    expect(template.components.map((c) => c.type)).toEqual(['limited_time_offer', 'body', 'button', 'carousel']);
+    expect(template.components[2]).toEqual({
+      type: 'button',
+      sub_type: 'copy_code',
+      index: 0,
+      parameters: [{ type: 'coupon_code', coupon_code: 'SAVE10' }],
+    });
+  });
+
+  it('sendTemplate with a catalog button thumbnail', async () => {
+    const client = createClient();
+    await client.sendTemplate('123', 'catalog_promo', {
+      components: [
+        {
+          type: 'button',
+          sub_type: 'catalog',
+          index: 0,
+          parameters: [{ type: 'action', action: { thumbnail_product_retailer_id: 'sku_1' } }],
+        },
+      ],
+    });
+    const template = captured[0].body.template as { components: Array<{ parameters: unknown[] }> };
+    expect(template.components[0].parameters).toEqual([
+      { type: 'action', action: { thumbnail_product_retailer_id: 'sku_1' } },
+    ]);
+  });
+
+  it('sendOtp builds the body and OTP button parameters', async () => {
+    const client = createClient();
+    await client.sendOtp('123', 'login_code', '482913', { language: 'es_MX' });
+    expect(captured[0].body.template).toEqual({
+      name: 'login_code',
+      language: { code: 'es_MX' },
+      components: [
+        { type: 'body', parameters: [{ type: 'text', text: '482913' }] },
+        { type: 'button', sub_type: 'url', index: '0', parameters: [{ type: 'text', text: '482913' }] },
+      ],
+    });
+  });
+
   it('sendReaction', async () => {
     const client = createClient();
     await client.sendReaction('123', 'wamid.target', '👍');
@@ -257,6 +322,193 @@ describe('WhatsAppClient send methods', () => {
     expect(interactive).toHaveProperty('type', 'list');
   });
 
+  it('sendInteractive (single product)', async () => {
+    const client = createClient();
+    await client.sendInteractive('123', {
+      type: 'product',
+      body: { text: 'Our best seller' },
+      action: { catalog_id: 'cat_1', product_retailer_id: 'sku_1' },
+    });
+    expect(captured[0].body.interactive).toEqual({
+      type: 'product',
+      body: { text: 'Our best seller' },
+      action: { catalog_id: 'cat_1', product_retailer_id: 'sku_1' },
+    });
+  });
+
+  it('sendInteractive (product list)', async () => {
+    const client = createClient();
+    await client.sendInteractive('123', {
+      type: 'product_list',
+      header: { type: 'text', text: 'Menu' },
+      body: { text: 'Pick your favourites' },
+      action: {
+        catalog_id: 'cat_1',
+        sections: [
+          { title: 'Pizzas', product_items: [{ product_retailer_id: 'p1' }, { product_retailer_id: 'p2' }] },
+          { title: 'Drinks', product_items: [{ product_retailer_id: 'd1' }] },
+        ],
+      },
+    });
+    const interactive = captured[0].body.interactive as Record<string, unknown>;
+    expect(interactive).toHaveProperty('type', 'product_list');
+  });
+
+  it('sendInteractive (catalog message)', async () => {
+    const client = createClient();
+    await client.sendInteractive('123', {
+      type: 'catalog_message',
+      body: { text: 'Browse our catalog' },
+      action: { name: 'catalog_message', parameters: { thumbnail_product_retailer_id: 'sku_1' } },
+    });
+    expect(captured[0].body.interactive).toHaveProperty('action.parameters.thumbnail_product_retailer_id', 'sku_1');
+  });
+
+  it('sendInteractive rejects invalid product lists before sending', async () => {
+    const client = createClient();
+    const err = await client
+      .sendInteractive('123', {
+        type: 'product_list',
+        header: { type: 'text', text: '' },
+        body: { text: 'Pick' },
+        action: {
+          catalog_id: 'cat_1',
+          sections: [
+            { product_items: Array.from({ length: 20 }, (_, i) => ({ product_retailer_id: `a${i}` })) },
+            { title: 'More', product_items: Array.from({ length: 11 }, (_, i) => ({ product_retailer_id: `b${i}` })) },
+          ],
+        },
+      })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(InteractiveValidationError);
+    expect((err as InteractiveValidationError).issues).toEqual([
+      'a text header is required',
+      'sections[0].title is required with multiple sections',
+      'at most 30 products are allowed (got 31)',
+    ]);
+    expect(captured).toHaveLength(0);
+  });
+
+  it('sendFlow (navigate)', async () => {
+    const client = createClient();
+    await client.sendFlow('5215512345678', {
+      flowId: '1234567890',
+      flowCta: 'Book now',
+      flowToken: 'booking-42',
+      mode: 'draft',
+      body: 'Pick a slot',
+      screen: 'SLOTS',
+      data: { date: '2026-03-01' },
+    });
+    expect(captured[0].body.interactive).toEqual({
+      type: 'flow',
+      body: { text: 'Pick a slot' },
+      action: {
+        name: 'flow',
+        parameters: {
+          flow_message_version: '3',
+          flow_id: '1234567890',
+          flow_cta: 'Book now',
+          flow_token: 'booking-42',
+          mode: 'draft',
+          flow_action: 'navigate',
+          flow_action_payload: { screen: 'SLOTS', data: { date: '2026-03-01' } },
+        },
+      },
+    });
+  });
+
+  it('sendFlow (data_exchange by name)', async () => {
+    const client = createClient();
+    await client.sendFlow('5215512345678', {
+      flowName: 'booking',
+      flowCta: 'Book now',
+      action: 'data_exchange',
+      body: 'Pick a slot',
+      footer: 'Powered by Flows',
+    });
+    const interactive = captured[0].body.interactive as Record<string, any>;
+    expect(interactive.footer).toEqual({ text: 'Powered by Flows' });
+    expect(interactive.action.parameters).toEqual({
+      flow_message_version: '3',
+      flow_name: 'booking',
+      flow_cta: 'Book now',
+      flow_action: 'data_exchange',
+    });
+  });
+
+  it('sendOrderDetails computes subtotal and total', async () => {
+    const client = createClient();
+    await client.sendOrderDetails('5215512345678', {
+      referenceId: 'order-42',
+      paymentConfiguration: 'upi-config',
+      currency: 'INR',
+      body: 'Your order is ready',
+      items: [
+        { retailerId: 'sku_1', name: 'Shirt', amount: 50000, quantity: 2 },
+        { retailerId: 'sku_2', name: 'Cap', amount: 20000, saleAmount: 15000, quantity: 1 },
+      ],
+      tax: 9000,
+      shipping: 5000,
+      discount: 10000,
+    });
+    const interactive = captured[0].body.interactive as Record<string, any>;
+    expect(interactive.type).toBe('order_details');
+    expect(interactive.action.name).toBe('review_and_pay');
+    const params = interactive.action.parameters;
+    expect(params.reference_id).toBe('order-42');
+    expect(params.type).toBe('physical-goods');
+    expect(params.order.subtotal).toEqual({ value: 115000, offset: 100 });
+    expect(params.order.items[1].sale_amount).toEqual({ value: 15000, offset: 100 });
+    expect(params.total_amount).toEqual({ value: 119000, offset: 100 });
+  });
+
+  it('sendInteractive rejects order_details whose total does not add up', async () => {
+    const client = createClient();
+    const err = await client
+      .sendInteractive('5215512345678', {
+        type: 'order_details',
+        body: { text: 'Pay' },
+        action: {
+          name: 'review_and_pay',
+          parameters: {
+            reference_id: 'order-1',
+            type: 'digital-goods',
+            payment_configuration: 'cfg',
+            currency: 'INR',
+            total_amount: { value: 999, offset: 100 },
+            order: {
+              status: 'pending',
+              items: [{ retailer_id: 'a', name: 'A', amount: { value: 500, offset: 100 }, quantity: 1 }],
+              subtotal: { value: 500, offset: 100 },
+              tax: { value: 0, offset: 100 },
+            },
+          },
+        },
+      })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(InteractiveValidationError);
+    expect(captured).toHaveLength(0);
+  });
+
+  it('sendOrderStatus', async () => {
+    const client = createClient();
+    await client.sendOrderStatus('5215512345678', {
+      referenceId: 'order-42',
+      status: 'shipped',
+      body: 'On its way',
+      description: 'Tracking ABC123',
+    });
+    expect(captured[0].body.interactive).toEqual({
+      type: 'order_status',
+      body: { text: 'On its way' },
+      action: {
+        name: 'review_order',
+        parameters: { reference_id: 'order-42', order: { status: 'shipped', description: 'Tracking ABC123' } },
+      },
+    });
+  });
+
   it('markAsRead', async () => {
     fetchResponse.body = { success: true };
     const client = createClient();
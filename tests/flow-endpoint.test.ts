@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+
+import { FlowEndpointError } from '../src/errors';
+import { createFlowEndpointHandler } from '../src/webhook';
+import type { ExpressLikeResponse, FlowEndpointRequest } from '../src/webhook';
+
+const PASSPHRASE = 'flow-test';
+const APP_SECRET = 'flow-app-secret';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase: PASSPHRASE },
+});
+
+/** Encrypt a request the way WhatsApp does; returns the body plus the key material to read the response. */
+function encryptRequest(payload: Record<string, unknown>) {
+  const aesKey = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-128-gcm', aesKey, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf-8'), cipher.final(), cipher.getAuthTag()]);
+  const body = {
+    encrypted_flow_data: data.toString('base64'),
+    encrypted_aes_key: crypto
+      .publicEncrypt({ key: publicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' }, aesKey)
+      .toString('base64'),
+    initial_vector: iv.toString('base64'),
+  };
+  return { body, aesKey, iv };
+}
+
+function decryptResponse(encrypted: string, aesKey: Buffer, iv: Buffer): unknown {
+  const data = Buffer.from(encrypted, 'base64');
+  const decipher = crypto.createDecipheriv('aes-128-gcm', aesKey, Buffer.from(iv.map((b) => ~b & 0xff)));
+  decipher.setAuthTag(data.subarray(-16));
+  return JSON.parse(Buffer.concat([decipher.update(data.subarray(0, -16)), decipher.final()]).toString('utf-8'));
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 0,
+    body: undefined as string | undefined,
+    headers: {} as Record<string, string>,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    send(body?: string) {
+      res.body = body;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+  };
+  return res satisfies ExpressLikeResponse;
+}
+
+function sign(body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', APP_SECRET).update(body).digest('hex');
+}
+
+type Screens = { SLOTS: { slots: string[] }; DONE: { message: string } };
+
+describe('createFlowEndpointHandler', () => {
+  const seen: FlowEndpointRequest[] = [];
+  const handler = createFlowEndpointHandler<Screens>({
+    privateKey,
+    passphrase: PASSPHRASE,
+    handlers: {
+      init: (req) => {
+        seen.push(req);
+        return { screen: 'SLOTS', data: { slots: ['10:00', '11:00'] } };
+      },
+      dataExchange: (req) => {
+        if (req.flow_token === 'expired') throw new FlowEndpointError('Flow token expired', 427);
+        return { screen: 'DONE', data: { message: `Booked ${String(req.data?.slot)}` } };
+      },
+    },
+  });
+
+  beforeEach(() => {
+    seen.length = 0;
+  });
+
+  it('answers health-check pings', async () => {
+    const { body, aesKey, iv } = encryptRequest({ version: '3.0', action: 'ping' });
+    const res = mockRes();
+    await handler({ method: 'POST', headers: {}, body }, res);
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('text/plain');
+    expect(decryptResponse(res.body!, aesKey, iv)).toEqual({ data: { status: 'active' } });
+  });
+
+  it('routes INIT and data_exchange to their handlers', async () => {
+    const init = encryptRequest({ version: '3.0', action: 'INIT', flow_token: 'tok' });
+    const initRes = mockRes();
+    await handler({ method: 'POST', headers: {}, body: Buffer.from(JSON.stringify(init.body)) }, initRes);
+    expect(decryptResponse(initRes.body!, init.aesKey, init.iv)).toEqual({
+      screen: 'SLOTS',
+      data: { slots: ['10:00', '11:00'] },
+    });
+    expect(seen[0].flow_token).toBe('tok');
+
+    const exchange = encryptRequest({
+      version: '3.0',
+      action: 'data_exchange',
+      screen: 'SLOTS',
+      flow_token: 'tok',
+      data: { slot: '10:00' },
+    });
+    const exchangeRes = mockRes();
+    await handler({ method: 'POST', headers: {}, body: exchange.body }, exchangeRes);
+    expect(decryptResponse(exchangeRes.body!, exchange.aesKey, exchange.iv)).toEqual({
+      screen: 'DONE',
+      data: { message: 'Booked 10:00' },
+    });
+  });
+
+  it('acknowledges error notifications', async () => {
+    const { body, aesKey, iv } = encryptRequest({
+      version: '3.0',
+      action: 'data_exchange',
+      flow_token: 'tok',
+      data: { error: 'invalid-screen-transition', error_message: 'Bad screen' },
+    });
+    const res = mockRes();
+    await handler({ method: 'POST', headers: {}, body }, res);
+    expect(decryptResponse(res.body!, aesKey, iv)).toEqual({ data: { acknowledged: true } });
+  });
+
+  it('uses the status of a FlowEndpointError thrown by a handler', async () => {
+    const { body } = encryptRequest({ version: '3.0', action: 'data_exchange', flow_token: 'expired', data: {} });
+    const res = mockRes();
+    await handler({ method: 'POST', headers: {}, body }, res);
+    expect(res.statusCode).toBe(427);
+  });
+
+  it('hides unexpected handler errors from the response', async () => {
+    const errors: Error[] = [];
+    const failing = createFlowEndpointHandler({
+      privateKey,
+      passphrase: PASSPHRASE,
+      handlers: {
+        dataExchange: () => {
+          throw new Error('db password rejected for user admin');
+        },
+      },
+      onError: (e) => errors.push(e),
+    });
+    const { body } = encryptRequest({ version: '3.0', action: 'data_exchange', flow_token: 'tok', data: {} });
+    const res = mockRes();
+    await failing({ method: 'POST', headers: {}, body }, res);
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toBe('Internal Server Error');
+    expect(errors.map((e) => e.message)).toEqual(['db password rejected for user admin']);
+  });
+
+  it('answers 500 when no handler is registered for the action', async () => {
+    const { body } = encryptRequest({ version: '3.0', action: 'BACK', screen: 'DONE', flow_token: 'tok' });
+    const res = mockRes();
+    await handler({ method: 'POST', headers: {}, body }, res);
+    expect(res.statusCode).toBe(500);
+  });
+
+  it('answers 421 when the request cannot be decrypted', async () => {
+    const { body } = encryptRequest({ version: '3.0', action: 'ping' });
+    const errors: Error[] = [];
+    const strict = createFlowEndpointHandler({
+      privateKey,
+      passphrase: PASSPHRASE,
+      handlers: {},
+      onError: (e) => errors.push(e),
+    });
+    const res = mockRes();
+    await strict({ method: 'POST', headers: {}, body: { ...body, initial_vector: crypto.randomBytes(16).toString('base64') } }, res);
+    expect(res.statusCode).toBe(421);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('verifies the request signature when appSecret is set', async () => {
+    const signed = createFlowEndpointHandler({ privateKey, passphrase: PASSPHRASE, appSecret: APP_SECRET, handlers: {} });
+    const { body, aesKey, iv } = encryptRequest({ version: '3.0', action: 'ping' });
+    const raw = JSON.stringify(body);
+
+    const bad = mockRes();
+    await signed({ method: 'POST', headers: { 'x-hub-signature-256': 'sha256=deadbeef' }, body: raw }, bad);
+    expect(bad.statusCode).toBe(432);
+
+    const good = mockRes();
+    await signed({ method: 'POST', headers: { 'x-hub-signature-256': sign(raw) }, body: raw }, good);
+    expect(good.statusCode).toBe(200);
+    expect(decryptResponse(good.body!, aesKey, iv)).toEqual({ data: { status: 'active' } });
+  });
+});
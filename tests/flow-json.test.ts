@@ -0,0 +1,139 @@
+import { FlowJsonValidationError } from '../src/errors';
+import { FlowJsonBuilder, completeFlow, exchangeData, navigateTo, validateFlowJson } from '../src/flow-json';
+import type { FlowJson } from '../src/types';
+
+function twoScreenBuilder(opts?: ConstructorParameters<typeof FlowJsonBuilder>[0]): FlowJsonBuilder {
+  return new FlowJsonBuilder(opts)
+    .screen('DETAILS', {
+      title: 'Your details',
+      children: [
+        { type: 'TextInput', name: 'name', label: 'Name', required: true },
+        {
+          type: 'Dropdown',
+          name: 'size',
+          label: 'Size',
+          'data-source': [
+            { id: 's', title: 'Small' },
+            { id: 'l', title: 'Large' },
+          ],
+        },
+        { type: 'DatePicker', name: 'date', label: 'Date' },
+        { type: 'Footer', label: 'Next', 'on-click-action': navigateTo('CONFIRM', { name: '${form.name}' }) },
+      ],
+    })
+    .screen('CONFIRM', {
+      title: 'Confirm',
+      terminal: true,
+      data: { name: { type: 'string', __example__: 'Ana' } },
+      children: [
+        { type: 'TextBody', text: 'Thanks, ${data.name}' },
+        { type: 'Footer', label: 'Done', 'on-click-action': completeFlow({ name: '${data.name}' }) },
+      ],
+    });
+}
+
+describe('FlowJsonBuilder', () => {
+  it('builds a valid Flow JSON document', () => {
+    const json = twoScreenBuilder().build();
+    expect(json.version).toBe('7.0');
+    expect(json.routing_model).toBeUndefined();
+    expect(json.screens.map((s) => s.id)).toEqual(['DETAILS', 'CONFIRM']);
+    expect(json.screens[1]).toMatchObject({ terminal: true, layout: { type: 'SingleColumnLayout' } });
+    expect(json.screens[0].layout.children[3]).toEqual({
+      type: 'Footer',
+      label: 'Next',
+      'on-click-action': { name: 'navigate', next: { type: 'screen', name: 'CONFIRM' }, payload: { name: '${form.name}' } },
+    });
+  });
+
+  it('derives the routing model for endpoint Flows', () => {
+    const json = twoScreenBuilder({ dataApiVersion: '3.0' })
+      .screen('LOOKUP', {
+        title: 'Lookup',
+        children: [{ type: 'Footer', label: 'Search', 'on-click-action': exchangeData({ q: '${form.q}' }) }],
+      })
+      .route('LOOKUP', ['CONFIRM'])
+      .build();
+    expect(json.data_api_version).toBe('3.0');
+    expect(json.routing_model).toEqual({ DETAILS: ['CONFIRM'], CONFIRM: [], LOOKUP: ['CONFIRM'] });
+  });
+
+  it('throws FlowJsonValidationError listing every issue', () => {
+    const builder = new FlowJsonBuilder({ version: '3.1' }).screen('START', {
+      title: 'Start',
+      children: [
+        { type: 'TextInput', name: 'email', label: 'Email' },
+        { type: 'TextArea', name: 'email', label: 'Notes' },
+        { type: 'If', condition: '${form.opt_in}', then: [{ type: 'TextBody', text: 'Yes' }] },
+        { type: 'Footer', label: 'Next', 'on-click-action': navigateTo('MISSING') },
+      ],
+    });
+    const err = (() => {
+      try {
+        builder.build();
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(err).toBeInstanceOf(FlowJsonValidationError);
+    expect((err as FlowJsonValidationError).issues).toEqual([
+      'screens: at least one screen must be terminal',
+      'screen START: duplicate component name "email"',
+      'screen START: If requires Flow JSON 4.0 or later (declared 3.1)',
+      'screen START: navigate action references unknown screen "MISSING"',
+    ]);
+  });
+});
+
+describe('validateFlowJson', () => {
+  it('allows the same name in both branches of an If', () => {
+    const json: FlowJson = {
+      version: '6.0',
+      screens: [
+        {
+          id: 'ONLY',
+          terminal: true,
+          layout: {
+            type: 'SingleColumnLayout',
+            children: [
+              {
+                type: 'If',
+                condition: '${data.pro}',
+                then: [{ type: 'TextInput', name: 'company', label: 'Company' }],
+                else: [{ type: 'TextInput', name: 'company', label: 'Company (optional)' }],
+              },
+              { type: 'Footer', label: 'Send', 'on-click-action': completeFlow() },
+            ],
+          },
+        },
+      ],
+    };
+    expect(validateFlowJson(json)).toEqual([]);
+  });
+
+  it('reports misplaced actions, reserved ids and bad routing', () => {
+    const json: FlowJson = {
+      version: '6.0',
+      routing_model: { A: ['NOWHERE'] },
+      screens: [
+        {
+          id: 'A',
+          layout: {
+            type: 'SingleColumnLayout',
+            children: [
+              { type: 'Footer', label: 'Go', 'on-click-action': completeFlow() },
+              { type: 'EmbeddedLink', text: 'Lookup', 'on-click-action': exchangeData() },
+            ],
+          },
+        },
+        { id: 'SUCCESS', terminal: true, layout: { type: 'SingleColumnLayout', children: [] } },
+      ],
+    };
+    expect(validateFlowJson(json)).toEqual([
+      'screen SUCCESS: "SUCCESS" is a reserved screen id',
+      'screen A: complete action is only allowed on terminal screens',
+      'screen A: data_exchange action requires data_api_version',
+      'routing_model: A routes to unknown screen "NOWHERE"',
+    ]);
+  });
+});
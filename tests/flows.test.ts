@@ -0,0 +1,149 @@
+import { WhatsAppClient } from '../src/client';
+import { WabaIdNotConfiguredError } from '../src/errors';
+import { FlowJsonBuilder, completeFlow } from '../src/flow-json';
+import { MockWhatsAppClient } from '../src/testing/index';
+
+/**
+ * Test suite for `client.flows` (WABA `flows` edge).
+ */
+
+const WABA_ID = '987654321';
+const GRAPH = 'https://graph.facebook.com/v21.0';
+
+interface CapturedRequest {
+  url: string;
+  method: string;
+  body: unknown;
+}
+
+let captured: CapturedRequest[] = [];
+let responses: unknown[] = [];
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  captured = [];
+  responses = [];
+  globalThis.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : init?.body;
+    captured.push({ url, method: init?.method ?? 'GET', body });
+    const next = responses.shift() ?? { success: true };
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => JSON.stringify(next),
+    } as Response;
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function createClient({ wabaId }: { wabaId?: string } = { wabaId: WABA_ID }): WhatsAppClient {
+  return new WhatsAppClient({
+    accessToken: 'token',
+    phoneNumberId: 'phone',
+    wabaId,
+    http: { maxRetries: 0 },
+  });
+}
+
+const FLOW_JSON = new FlowJsonBuilder()
+  .screen('DONE', {
+    title: 'Done',
+    terminal: true,
+    children: [{ type: 'Footer', label: 'Finish', 'on-click-action': completeFlow() }],
+  })
+  .build();
+
+describe('client.flows', () => {
+  it('create serializes the Flow JSON', async () => {
+    responses.push({ id: 'flow_1', success: true, validation_errors: [] });
+    const res = await createClient().flows.create({
+      name: 'booking',
+      categories: ['APPOINTMENT_BOOKING'],
+      flow_json: FLOW_JSON,
+    });
+    expect(res.id).toBe('flow_1');
+    expect(captured[0].url).toBe(`${GRAPH}/${WABA_ID}/flows`);
+    expect(captured[0].method).toBe('POST');
+    expect(captured[0].body).toEqual({
+      name: 'booking',
+      categories: ['APPOINTMENT_BOOKING'],
+      flow_json: JSON.stringify(FLOW_JSON),
+    });
+  });
+
+  it('list follows paging cursors', async () => {
+    responses.push(
+      { data: [{ id: 'f1', name: 'a', status: 'DRAFT', categories: ['OTHER'] }], paging: { cursors: { after: 'c1' }, next: 'x' } },
+      { data: [{ id: 'f2', name: 'b', status: 'PUBLISHED', categories: ['SURVEY'] }], paging: { cursors: { after: 'c2' } } },
+    );
+    const ids: string[] = [];
+    for await (const flow of createClient().flows.list({ limit: 1 })) ids.push(flow.id);
+    expect(ids).toEqual(['f1', 'f2']);
+    expect(captured[1].url).toBe(`${GRAPH}/${WABA_ID}/flows?limit=1&after=c1`);
+  });
+
+  it('uploadJson posts flow.json as a FLOW_JSON asset and returns validation errors', async () => {
+    responses.push({
+      success: true,
+      validation_errors: [{ error: 'INVALID_PROPERTY', error_type: 'JSON_SCHEMA_ERROR', message: 'bad', line_start: 3 }],
+    });
+    const res = await createClient().flows.uploadJson('flow_1', FLOW_JSON);
+    expect(captured[0].url).toBe(`${GRAPH}/flow_1/assets`);
+    const form = captured[0].body as FormData;
+    expect(form.get('asset_type')).toBe('FLOW_JSON');
+    expect(form.get('name')).toBe('flow.json');
+    expect(await (form.get('file') as Blob).text()).toBe(JSON.stringify(FLOW_JSON));
+    expect(res.validation_errors[0].error).toBe('INVALID_PROPERTY');
+  });
+
+  it('publish, deprecate and delete hit the flow node', async () => {
+    const flows = createClient().flows;
+    await flows.publish('flow_1');
+    await flows.deprecate('flow_1');
+    await flows.delete('flow_1');
+    expect(captured.map((c) => `${c.method} ${c.url}`)).toEqual([
+      `POST ${GRAPH}/flow_1/publish`,
+      `POST ${GRAPH}/flow_1/deprecate`,
+      `DELETE ${GRAPH}/flow_1`,
+    ]);
+  });
+
+  it('preview and validationErrors read fields of the flow', async () => {
+    responses.push(
+      { id: 'flow_1', preview: { preview_url: 'https://preview', expires_at: '2026-12-01T00:00:00+0000' } },
+      { id: 'flow_1', validation_errors: [] },
+    );
+    const flows = createClient().flows;
+    expect((await flows.preview('flow_1', { invalidate: true })).preview_url).toBe('https://preview');
+    expect(await flows.validationErrors('flow_1')).toEqual([]);
+    expect(captured[0].url).toBe(`${GRAPH}/flow_1?fields=${encodeURIComponent('preview.invalidate(true)')}`);
+    expect(captured[1].url).toBe(`${GRAPH}/flow_1?fields=validation_errors`);
+  });
+
+  it('throws WabaIdNotConfiguredError for WABA-level calls without wabaId', async () => {
+    await expect(createClient({}).flows.create({ name: 'x', categories: ['OTHER'] })).rejects.toThrow(
+      WabaIdNotConfiguredError,
+    );
+  });
+});
+
+describe('MockWhatsAppClient.flows', () => {
+  it('validates uploaded JSON locally and tracks status', async () => {
+    const mock = new MockWhatsAppClient();
+    const { id } = await mock.flows.create({ name: 'booking', categories: ['SURVEY'] });
+    const bad = await mock.flows.uploadJson(id, { version: '7.0', screens: [] });
+    expect(bad.validation_errors.map((e) => e.message)).toEqual(['screens: at least one screen is required']);
+
+    await mock.flows.uploadJson(id, FLOW_JSON);
+    expect(await mock.flows.validationErrors(id)).toEqual([]);
+    await mock.flows.publish(id);
+    expect((await mock.flows.get(id)).status).toBe('PUBLISHED');
+    expect(mock.callsFor('flows.publish')).toHaveLength(1);
+  });
+});
@@ -1,4 +1,12 @@
-import { WhatsAppError } from '../src/errors';
+import {
+  AccessTokenExpiredError,
+  NetworkError,
+  RateLimitError,
+  ReEngagementRequiredError,
+  RecipientNotOnWhatsAppError,
+  TemplateParamMismatchError,
+  WhatsAppError,
+} from '../src/errors';
 import { createHttpClient } from '../src/http';
 
 const originalFetch = globalThis.fetch;
@@ -108,4 +116,81 @@ describe('HTTP client retry logic', () => {
     const client = createHttpClient('token', { maxRetries: 0, timeoutMs: 100 });
     await expect(client.request('https://example.com', { method: 'GET' })).rejects.toThrow('timed out');
   });
+
+  it('marks fetch failures as retryable NetworkErrors, unlike other status-0 errors', async () => {
+    globalThis.fetch = jest.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    const client = createHttpClient('token', { maxRetries: 0 });
+    const err = await client.request('https://example.com', { method: 'GET' }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err).toMatchObject({ statusCode: 0, isRetryable: true, message: 'fetch failed' });
+    expect(new WhatsAppError('No wamid in response', 0).isRetryable).toBe(false);
+  });
+});
+
+describe('Graph error parsing', () => {
+  function respondWith(status: number, body: unknown): void {
+    globalThis.fetch = jest.fn(async () => {
+      return {
+        ok: false,
+        status,
+        headers: new Headers(),
+        text: async () => JSON.stringify(body),
+      } as Response;
+    });
+  }
+
+  it('parses the error envelope into typed fields', async () => {
+    respondWith(400, {
+      error: {
+        message: 'Re-engagement message',
+        type: 'OAuthException',
+        code: 131047,
+        error_subcode: 2494010,
+        error_data: { messaging_product: 'whatsapp', details: 'More than 24 hours have passed' },
+        fbtrace_id: 'AbCdEf123',
+      },
+    });
+
+    const client = createHttpClient('token', { maxRetries: 0 });
+    const err = await client.request('https://example.com', { method: 'POST' }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ReEngagementRequiredError);
+    expect(err).toBeInstanceOf(WhatsAppError);
+    const e = err as ReEngagementRequiredError;
+    expect(e.statusCode).toBe(400);
+    expect(e.code).toBe(131047);
+    expect(e.subcode).toBe(2494010);
+    expect(e.errorType).toBe('OAuthException');
+    expect(e.errorDetails).toBe('More than 24 hours have passed');
+    expect(e.fbtraceId).toBe('AbCdEf123');
+    expect(e.isRetryable).toBe(false);
+    expect(e.message).toContain('Re-engagement message');
+  });
+
+  it.each([
+    [131026, RecipientNotOnWhatsAppError, false],
+    [130429, RateLimitError, true],
+    [131056, RateLimitError, true],
+    [190, AccessTokenExpiredError, false],
+    [132000, TemplateParamMismatchError, false],
+  ])('maps code %i to the matching subclass', async (code, ErrorClass, retryable) => {
+    respondWith(400, { error: { message: 'err', code } });
+    const client = createHttpClient('token', { maxRetries: 0 });
+    const err = await client.request('https://example.com', { method: 'POST' }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ErrorClass);
+    expect((err as WhatsAppError).isRetryable).toBe(retryable);
+  });
+
+  it('falls back to a plain WhatsAppError for unknown codes and non-JSON bodies', async () => {
+    globalThis.fetch = jest.fn(async () => {
+      return { ok: false, status: 403, headers: new Headers(), text: async () => 'Forbidden' } as Response;
+    });
+    const client = createHttpClient('token', { maxRetries: 0 });
+    const err = await client.request('https://example.com', { method: 'GET' }).catch((e: unknown) => e);
+    expect((err as Error).constructor).toBe(WhatsAppError);
+    expect((err as WhatsAppError).code).toBeUndefined();
+    expect((err as WhatsAppError).isRetryable).toBe(false);
+  });
 });
@@ -0,0 +1,88 @@
+import { OtpSecretNotConfiguredError } from '../src/errors';
+import { MemoryOtpStore, OtpManager, type OtpRecord, type OtpStore } from '../src/otp';
+
+describe('OtpManager', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('generates numeric codes of the configured length', async () => {
+    const otp = new OtpManager({ length: 8 });
+    const { code, expiresAt } = await otp.generate('521');
+    expect(code).toMatch(/^\d{8}$/);
+    expect(expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('verifies a correct code once', async () => {
+    const otp = new OtpManager();
+    const { code } = await otp.generate('521');
+    expect(await otp.verify('521', code)).toEqual({ ok: true });
+    expect(await otp.verify('521', code)).toEqual({ ok: false, reason: 'not_found' });
+  });
+
+  it('does not store the plain-text code', async () => {
+    const store = new MemoryOtpStore();
+    const otp = new OtpManager({ store });
+    const { code } = await otp.generate('521');
+    const record = await store.get('521');
+    expect(record?.hash).not.toContain(code);
+    expect(record?.attempts).toBe(0);
+  });
+
+  it('counts failed attempts and locks out at the limit', async () => {
+    const otp = new OtpManager({ maxAttempts: 2 });
+    const { code } = await otp.generate('521');
+    const wrong = code === '000000' ? '111111' : '000000';
+    expect(await otp.verify('521', wrong)).toEqual({ ok: false, reason: 'invalid', attemptsLeft: 1 });
+    expect(await otp.verify('521', wrong)).toEqual({ ok: false, reason: 'too_many_attempts' });
+    expect(await otp.verify('521', code)).toEqual({ ok: false, reason: 'not_found' });
+  });
+
+  it('counts concurrent wrong guesses against the limit', async () => {
+    const otp = new OtpManager({ maxAttempts: 3 });
+    const { code } = await otp.generate('521');
+    const guesses = Array.from({ length: 10 }, (_, i) => String(i).padStart(6, '0')).filter((g) => g !== code);
+
+    const results = await Promise.all(guesses.map((guess) => otp.verify('521', guess)));
+
+    expect(results.filter((r) => !r.ok && r.reason === 'invalid')).toHaveLength(2);
+    expect(await otp.verify('521', code)).toEqual({ ok: false, reason: 'not_found' });
+  });
+
+  it('rejects expired codes', async () => {
+    jest.useFakeTimers();
+    const otp = new OtpManager({ ttlMs: 1_000 });
+    const { code } = await otp.generate('521');
+    jest.advanceTimersByTime(1_001);
+    expect(await otp.verify('521', code)).toEqual({ ok: false, reason: 'expired' });
+  });
+
+  it('regenerating replaces the previous code and revoke removes it', async () => {
+    const otp = new OtpManager();
+    await otp.generate('521');
+    const second = await otp.generate('521');
+    expect(await otp.verify('521', second.code)).toEqual({ ok: true });
+
+    const third = await otp.generate('521');
+    await otp.revoke('521');
+    expect(await otp.verify('521', third.code)).toEqual({ ok: false, reason: 'not_found' });
+  });
+
+  it('requires a shared secret with a custom store', async () => {
+    const records = new Map<string, OtpRecord>();
+    const shared: OtpStore = {
+      get: async (key) => records.get(key),
+      set: async (key, record) => void records.set(key, record),
+      incrementAttempts: async (key) => {
+        const record = records.get(key);
+        if (record) record.attempts++;
+        return record;
+      },
+      delete: async (key) => void records.delete(key),
+    };
+    expect(() => new OtpManager({ store: shared })).toThrow(OtpSecretNotConfiguredError);
+
+    const { code } = await new OtpManager({ store: shared, secret: 's3cret' }).generate('521');
+    expect(await new OtpManager({ store: shared, secret: 's3cret' }).verify('521', code)).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,175 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { WhatsAppClient } from '../src/client';
+import { RecipientNotOnWhatsAppError, WhatsAppError } from '../src/errors';
+import { FileOutboxStore, MemoryOutboxStore, Outbox, type OutboxEntry } from '../src/outbox';
+import type { OutboxFailedEvent } from '../src/types';
+
+/**
+ * Test suite for the durable outbox and its use by `WhatsAppClient`.
+ */
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  jest.useRealTimers();
+  globalThis.fetch = originalFetch;
+});
+
+/** Answer each request with the next status in `statuses` (200 sends a wamid). */
+function mockFetch(statuses: number[], error = { code: 131000, message: 'Something went wrong' }) {
+  let calls = 0;
+  globalThis.fetch = jest.fn(async () => {
+    const status = statuses[Math.min(calls++, statuses.length - 1)];
+    const body = status === 200 ? { messages: [{ id: `wamid.${calls}` }] } : { error };
+    return {
+      ok: status === 200,
+      status,
+      headers: new Headers(),
+      text: async () => JSON.stringify(body),
+    } as Response;
+  });
+  return () => calls;
+}
+
+/** Poll `check` with real timers until it passes. */
+async function waitFor(check: () => Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (await check().catch(() => false)) return;
+    await new Promise((r) => setTimeout(r, 20));
+  }
+  throw new Error('Timed out');
+}
+
+describe('WhatsAppClient outbox', () => {
+  it('persists every send and retries it until Graph accepts it', async () => {
+    jest.useFakeTimers();
+    const calls = mockFetch([500, 200]);
+    const store = new MemoryOutboxStore();
+    const client = new WhatsAppClient({
+      accessToken: 'token',
+      phoneNumberId: 'phone',
+      http: { maxRetries: 0 },
+      outbox: { store, backoffMs: 1_000, pollIntervalMs: 500 },
+    });
+    const sent: OutboxEntry[] = [];
+    client.on('outbox:sent', (entry) => sent.push(entry));
+
+    const result = client.sendText('5215500000000', 'hi');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(calls()).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1_500);
+    expect(await result).toEqual({ wamid: 'wamid.2' });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ status: 'sent', attempts: 2, wamid: 'wamid.2', payload: { to: '5215500000000' } });
+    expect(await client.outbox?.get(sent[0].id)).toMatchObject({ status: 'sent', wamid: 'wamid.2' });
+    expect(await store.due(Infinity, 10)).toEqual([]);
+    client.outbox?.stop();
+  });
+
+  it('marks non-retryable failures as failed and emits outbox:failed', async () => {
+    mockFetch([400], { code: 131026, message: 'Message undeliverable' });
+    const client = new WhatsAppClient({
+      accessToken: 'token',
+      phoneNumberId: 'phone',
+      outbox: { store: new MemoryOutboxStore() },
+    });
+    const failed: OutboxFailedEvent[] = [];
+    client.on('outbox:failed', (event) => failed.push(event));
+
+    await expect(client.sendText('5215500000000', 'hi')).rejects.toBeInstanceOf(RecipientNotOnWhatsAppError);
+    expect(failed).toHaveLength(1);
+    expect(failed[0].entry).toMatchObject({ status: 'failed', attempts: 1, lastError: { code: 131026 } });
+    expect(await client.outbox?.get(failed[0].entry.id)).toMatchObject({ status: 'failed', lastError: { code: 131026 } });
+    client.outbox?.stop();
+  });
+});
+
+describe('FileOutboxStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('delivers entries left pending by a previous process', async () => {
+    const file = path.join(dir, 'outbox.jsonl');
+
+    // First run: Graph is down, so the entry is still pending when the process stops.
+    const down = new Outbox({ store: new FileOutboxStore(file), maxAttempts: 3 }, async () => {
+      throw new WhatsAppError('Service unavailable', 503);
+    });
+    void down.enqueue({ messaging_product: 'whatsapp', to: '5215500000000', type: 'text' });
+    await waitFor(async () => (await fs.promises.readFile(file, 'utf-8')).trim().split('\n').length === 2);
+
+    // Second run: a fresh store reads the log back and the worker drains it.
+    const store = new FileOutboxStore(file);
+    const [pending] = await store.due(Infinity, 10);
+    expect(pending).toMatchObject({ status: 'pending', attempts: 1, lastError: { message: 'Service unavailable' } });
+
+    const deliver = jest.fn(async () => ({ wamid: 'wamid.1' }));
+    const up = new Outbox({ store }, deliver);
+    await store.save({ ...pending, nextAttemptAt: 0 });
+    await up.flush();
+
+    expect(deliver).toHaveBeenCalledWith(pending.payload);
+    expect(await new FileOutboxStore(file).get(pending.id)).toMatchObject({ status: 'sent', wamid: 'wamid.1' });
+  });
+
+  it('prunes finished entries once they are older than retainFinishedMs', async () => {
+    const file = path.join(dir, 'outbox.jsonl');
+    const store = new FileOutboxStore(file);
+    const outbox = new Outbox({ store, retainFinishedMs: 60_000 }, async () => ({ wamid: 'wamid.1' }));
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      id: 'old',
+      payload: {},
+      status: 'sent',
+      attempts: 1,
+      createdAt: now - 120_000,
+      updatedAt: now - 120_000,
+      nextAttemptAt: 0,
+      wamid: 'wamid.old',
+    };
+    await store.save(entry);
+    await store.save({ ...entry, id: 'recent', updatedAt: now - 1_000 });
+    await store.save({ ...entry, id: 'waiting', status: 'pending', updatedAt: now - 120_000, nextAttemptAt: now + 60_000 });
+
+    await outbox.flush();
+
+    const reloaded = new FileOutboxStore(file);
+    expect(await reloaded.get('old')).toBeUndefined();
+    expect(await reloaded.get('recent')).toMatchObject({ wamid: 'wamid.old' });
+    expect(await reloaded.get('waiting')).toMatchObject({ status: 'pending' });
+  });
+
+  it('compacts the log once it is mostly finished entries', async () => {
+    const file = path.join(dir, 'outbox.jsonl');
+    const store = new FileOutboxStore(file);
+    const entry: OutboxEntry = {
+      id: '',
+      payload: {},
+      status: 'pending',
+      attempts: 0,
+      createdAt: 0,
+      updatedAt: 0,
+      nextAttemptAt: 0,
+    };
+    for (let i = 0; i < 600; i++) {
+      await store.save({ ...entry, id: `e${i}` });
+      if (i > 0) await store.save({ ...entry, id: `e${i - 1}`, status: 'sent' });
+      await store.prune(1);
+    }
+
+    const lines = (await fs.promises.readFile(file, 'utf-8')).trim().split('\n');
+    expect(lines.length).toBeLessThan(1_000);
+    expect((await new FileOutboxStore(file).due(Infinity, 10)).map((e) => e.id)).toEqual(['e599']);
+  });
+});
@@ -1,5 +1,6 @@
-import { parseIncoming, parseStatuses } from '../src/parse-incoming';
-import type { WebhookPayload } from '../src/types';
+import { ReEngagementRequiredError } from '../src/errors';
+import { parseAccountEvents, parseIncoming, parseStatuses, parseTemplateEvents } from '../src/parse-incoming';
+import type { InboundFlowReply, WebhookChangeValue, WebhookPayload } from '../src/types';
 
 /** Helper to build a minimal webhook payload wrapping raw message objects. */
 function wrap(...messages: Array<Record<string, unknown>>): WebhookPayload {
@@ -45,6 +46,20 @@ function wrapStatuses(...statuses: Array<Record<string, unknown>>): WebhookPaylo
   };
 }
 
+/** Wrap the `value` of a non‑message webhook field (account and template notifications). */
+function wrapField(...changes: Array<[field: string, value: Record<string, unknown>]>): WebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: 'WABA',
+        time: 1700000000,
+        changes: changes.map(([field, value]) => ({ field, value: value as unknown as WebhookChangeValue })),
+      },
+    ],
+  };
+}
+
 describe('parseIncoming', () => {
   it('returns empty array for empty payload', () => {
     const result = parseIncoming({ object: 'whatsapp_business_account', entry: [] });
@@ -67,6 +82,10 @@ describe('parseIncoming', () => {
       timestamp: 1700000000,
       type: 'text',
       text: 'Hello world',
+      profileName: 'Test',
+      waId: '5215500000000',
+      phoneNumberId: 'PID',
+      displayPhoneNumber: '15550001234',
     });
   });
 
@@ -267,6 +286,41 @@ describe('parseIncoming', () => {
     expect(msgs[0].type).toBe('flow_reply');
     if (msgs[0].type === 'flow_reply') {
       expect(msgs[0].flow.responseJson).toEqual({ screen: 'DONE', foo: 'bar' });
+      expect(msgs[0].flow.flowToken).toBeUndefined();
+    }
+  });
+
+  it('exposes the flow_token of a flow reply', () => {
+    const msgs = parseIncoming(
+      wrap({
+        from: '123',
+        id: 'wamid.flow2',
+        timestamp: '1700000000',
+        type: 'interactive',
+        interactive: {
+          type: 'nfm_reply',
+          nfm_reply: { response_json: '{"flow_token":"booking-42","slot":"10:00"}', body: 'Sent' },
+        },
+      }),
+    );
+    const reply = msgs[0] as InboundFlowReply<{ slot: string }>;
+    expect(reply.flow.flowToken).toBe('booking-42');
+    expect(reply.flow.responseJson.slot).toBe('10:00');
+  });
+
+  it('parses a template quick-reply button', () => {
+    const msgs = parseIncoming(
+      wrap({
+        from: '123',
+        id: 'wamid.qr',
+        timestamp: '1700000000',
+        type: 'button',
+        button: { payload: 'STOP_PROMOS', text: 'Stop promotions' },
+      }),
+    );
+    expect(msgs[0].type).toBe('button');
+    if (msgs[0].type === 'button') {
+      expect(msgs[0].button).toEqual({ payload: 'STOP_PROMOS', text: 'Stop promotions' });
     }
   });
 
@@ -321,6 +375,73 @@ describe('parseIncoming', () => {
     }
   });
 
+  it('parses reply context on any message type', () => {
+    const msgs = parseIncoming(
+      wrap({
+        from: '123',
+        id: 'wamid.reply',
+        timestamp: '1700000000',
+        type: 'image',
+        image: { id: 'media1', mime_type: 'image/jpeg' },
+        context: { from: '15550001234', id: 'wamid.quoted' },
+      }),
+    );
+    expect(msgs[0].context).toEqual({ messageId: 'wamid.quoted', from: '15550001234' });
+  });
+
+  it('parses forwarding flags and referred product', () => {
+    const msgs = parseIncoming(
+      wrap(
+        {
+          from: '123',
+          id: 'wamid.fwd',
+          timestamp: '1700000000',
+          type: 'text',
+          text: { body: 'check this' },
+          context: { forwarded: true, frequently_forwarded: true },
+        },
+        {
+          from: '123',
+          id: 'wamid.prod',
+          timestamp: '1700000000',
+          type: 'text',
+          text: { body: 'Is this in stock?' },
+          context: {
+            from: '15550001234',
+            id: 'wamid.catalog',
+            referred_product: { catalog_id: 'cat1', product_retailer_id: 'sku1' },
+          },
+        },
+      ),
+    );
+    expect(msgs[0].context?.forwarded).toBe(true);
+    expect(msgs[0].context?.frequentlyForwarded).toBe(true);
+    expect(msgs[1].context?.referredProduct).toEqual({ catalogId: 'cat1', productRetailerId: 'sku1' });
+  });
+
+  it('omits context when the raw message has none', () => {
+    const msgs = parseIncoming(
+      wrap({ from: '123', id: 'wamid.plain', timestamp: '1700000000', type: 'text', text: { body: 'hi' } }),
+    );
+    expect(msgs[0].context).toBeUndefined();
+  });
+
+  it('matches the sender profile by wa_id when several contacts are present', () => {
+    const payload = wrap(
+      { from: '111', id: 'w1', timestamp: '1700000000', type: 'text', text: { body: 'A' } },
+      { from: '222', id: 'w2', timestamp: '1700000001', type: 'text', text: { body: 'B' } },
+    );
+    payload.entry[0].changes[0].value.contacts = [
+      { profile: { name: 'Alice' }, wa_id: '111' },
+      { profile: { name: 'Bob' }, wa_id: '222' },
+    ];
+    const msgs = parseIncoming(payload);
+    expect(msgs[0].profileName).toBe('Alice');
+    expect(msgs[1].profileName).toBe('Bob');
+    expect(msgs[1].waId).toBe('222');
+    expect(msgs[1].phoneNumberId).toBe('PID');
+  });
+
   it('returns unsupported for unknown types', () => {
     const msgs = parseIncoming(
       wrap({ from: '123', id: 'wamid.unk', timestamp: '1700000000', type: 'ephemeral' }),
@@ -355,9 +476,158 @@ describe('parseStatuses', () => {
     expect(statuses[0].status).toBe('delivered');
     expect(statuses[0].conversation?.id).toBe('conv1');
     expect(statuses[0].pricing?.billable).toBe(true);
+    expect(statuses[0].phoneNumberId).toBe('PID');
+    expect(statuses[0].displayPhoneNumber).toBe('15550001234');
+  });
+
+  it('classifies errors on failed statuses', () => {
+    const statuses = parseStatuses(
+      wrapStatuses({
+        id: 'wamid.f1',
+        recipient_id: '5215500000000',
+        timestamp: '1700000000',
+        status: 'failed',
+        errors: [
+          {
+            code: 131047,
+            title: 'Re-engagement message',
+            message: 'Re-engagement message',
+            error_data: { details: 'Message failed to send because more than 24 hours have passed' },
+          },
+        ],
+      }),
+    );
+    const err = statuses[0].errors?.[0];
+    expect(err?.code).toBe(131047);
+    expect(err?.error).toBeInstanceOf(ReEngagementRequiredError);
+    expect(err?.error.isRetryable).toBe(false);
+    expect(err?.error.errorDetails).toContain('24 hours');
   });
 
   it('returns empty for no statuses', () => {
     expect(parseStatuses({ object: 'whatsapp_business_account', entry: [] })).toEqual([]);
   });
 });
+
+describe('parseAccountEvents', () => {
+  it('parses quality and messaging limit updates', () => {
+    const events = parseAccountEvents(
+      wrapField(
+        ['phone_number_quality_update', { display_phone_number: '15550001234', event: 'FLAGGED', current_limit: 'TIER_1K' }],
+        [
+          'phone_number_quality_update',
+          { display_phone_number: '15550001234', event: 'DOWNGRADE', current_limit: 'TIER_250', old_limit: 'TIER_1K' },
+        ],
+      ),
+    );
+    expect(events).toEqual([
+      {
+        type: 'quality',
+        wabaId: 'WABA',
+        timestamp: 1700000000,
+        displayPhoneNumber: '15550001234',
+        event: 'FLAGGED',
+        currentLimit: 'TIER_1K',
+        oldLimit: undefined,
+      },
+      expect.objectContaining({ type: 'quality', event: 'DOWNGRADE', currentLimit: 'TIER_250', oldLimit: 'TIER_1K' }),
+    ]);
+  });
+
+  it('parses account updates, alerts, reviews, capabilities and name decisions', () => {
+    const events = parseAccountEvents(
+      wrapField(
+        [
+          'account_update',
+          {
+            phone_number: '15550001234',
+            event: 'ACCOUNT_RESTRICTION',
+            restriction_info: [{ restriction_type: 'RESTRICTED_BIZ_INITIATED_MESSAGING', expiration: 1700086400 }],
+          },
+        ],
+        ['account_update', { event: 'DISABLED_UPDATE', ban_info: { waba_ban_state: ['DISABLE'], waba_ban_date: '2026-10-01' } }],
+        [
+          'account_alerts',
+          {
+            entity_type: 'PHONE_NUMBER',
+            entity_id: 'PID',
+            alert_severity: 'CRITICAL',
+            alert_status: 'ACTIVE',
+            alert_type: 'INCREASED_CAPABILITIES_ELIGIBILITY_FAILED',
+            alert_description: 'Not eligible',
+          },
+        ],
+        ['account_review_update', { decision: 'APPROVED' }],
+        ['business_capability_update', { max_daily_conversation_per_phone: 1000, max_phone_numbers_per_business: 2 }],
+        [
+          'phone_number_name_update',
+          {
+            display_phone_number: '15550001234',
+            decision: 'REJECTED',
+            requested_verified_name: 'Acme',
+            rejection_reason: 'NAME_FORMAT_UNACCEPTABLE',
+          },
+        ],
+      ),
+    );
+    expect(events.map((e) => e.type)).toEqual(['update', 'update', 'alert', 'review', 'capability', 'name']);
+    expect(events[0]).toMatchObject({
+      event: 'ACCOUNT_RESTRICTION',
+      phoneNumber: '15550001234',
+      restrictions: [{ type: 'RESTRICTED_BIZ_INITIATED_MESSAGING', expiration: 1700086400 }],
+    });
+    expect(events[1]).toMatchObject({ banInfo: { state: 'DISABLE', date: '2026-10-01' } });
+    expect(events[2]).toMatchObject({ entityType: 'PHONE_NUMBER', severity: 'CRITICAL', status: 'ACTIVE' });
+    expect(events[3]).toMatchObject({ decision: 'APPROVED' });
+    expect(events[4]).toMatchObject({ maxDailyConversationsPerPhone: 1000, maxPhoneNumbersPerBusiness: 2 });
+    expect(events[5]).toMatchObject({ decision: 'REJECTED', rejectionReason: 'NAME_FORMAT_UNACCEPTABLE' });
+  });
+
+  it('ignores message changes and unknown fields', () => {
+    expect(parseAccountEvents(wrapField(['security', { event: 'PIN_CHANGED' }]))).toEqual([]);
+    expect(parseAccountEvents(wrapStatuses({ id: 'wamid.s1', status: 'sent' }))).toEqual([]);
+  });
+});
+
+describe('parseTemplateEvents', () => {
+  const template = { message_template_id: 42, message_template_name: 'order_update', message_template_language: 'en_US' };
+
+  it('parses status updates with rejection reasons and pause details', () => {
+    const events = parseTemplateEvents(
+      wrapField(
+        ['message_template_status_update', { ...template, event: 'REJECTED', reason: 'INVALID_FORMAT' }],
+        [
+          'message_template_status_update',
+          { ...template, event: 'PAUSED', reason: 'NONE', other_info: { title: 'FIRST_PAUSE', description: 'Low quality' } },
+        ],
+      ),
+    );
+    expect(events[0]).toEqual({
+      type: 'status',
+      wabaId: 'WABA',
+      timestamp: 1700000000,
+      templateId: '42',
+      templateName: 'order_update',
+      language: 'en_US',
+      event: 'REJECTED',
+      reason: 'INVALID_FORMAT',
+      otherInfo: undefined,
+      disableDate: undefined,
+    });
+    expect(events[1]).toMatchObject({ event: 'PAUSED', reason: undefined, otherInfo: { title: 'FIRST_PAUSE' } });
+  });
+
+  it('parses quality and category updates', () => {
+    const events = parseTemplateEvents(
+      wrapField(
+        ['message_template_quality_update', { ...template, previous_quality_score: 'GREEN', new_quality_score: 'RED' }],
+        ['template_category_update', { ...template, previous_category: 'UTILITY', new_category: 'MARKETING' }],
+        ['account_review_update', { decision: 'APPROVED' }],
+      ),
+    );
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'quality', previousQuality: 'GREEN', newQuality: 'RED' }),
+      expect.objectContaining({ type: 'category', previousCategory: 'UTILITY', newCategory: 'MARKETING' }),
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { WhatsAppClient } from '../src/client';
+import { WabaIdNotConfiguredError } from '../src/errors';
+import { MockWhatsAppClient } from '../src/testing/index';
+
+/**
+ * Test suite for `client.phoneNumbers` (WABA `phone_numbers` edge and the
+ * phone number node).
+ */
+
+const WABA_ID = '987654321';
+const GRAPH = 'https://graph.facebook.com/v21.0';
+
+interface CapturedRequest {
+  url: string;
+  method: string;
+  body: unknown;
+}
+
+let captured: CapturedRequest[] = [];
+let responses: unknown[] = [];
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  captured = [];
+  responses = [];
+  globalThis.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : init?.body;
+    captured.push({ url, method: init?.method ?? 'GET', body });
+    const next = responses.shift() ?? { success: true };
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => JSON.stringify(next),
+    } as Response;
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function createClient({ wabaId }: { wabaId?: string } = { wabaId: WABA_ID }): WhatsAppClient {
+  return new WhatsAppClient({
+    accessToken: 'token',
+    phoneNumberId: 'phone',
+    wabaId,
+    http: { maxRetries: 0 },
+  });
+}
+
+describe('client.phoneNumbers', () => {
+  it('list follows paging cursors and requests the status fields', async () => {
+    responses.push(
+      {
+        data: [
+          {
+            id: 'pn_1',
+            display_phone_number: '+1 555-0100',
+            verified_name: 'Acme',
+            quality_rating: 'GREEN',
+            messaging_limit_tier: 'TIER_1K',
+          },
+        ],
+        paging: { cursors: { after: 'c1' }, next: 'x' },
+      },
+      {
+        data: [{ id: 'pn_2', display_phone_number: '+1 555-0101', verified_name: 'Acme', quality_rating: 'YELLOW' }],
+        paging: { cursors: { after: 'c2' } },
+      },
+    );
+    const seen: string[] = [];
+    for await (const n of createClient().phoneNumbers.list({ limit: 1 })) seen.push(`${n.id}:${n.quality_rating}`);
+    expect(seen).toEqual(['pn_1:GREEN', 'pn_2:YELLOW']);
+
+    const second = new URL(captured[1].url);
+    expect(`${second.origin}${second.pathname}`).toBe(`${GRAPH}/${WABA_ID}/phone_numbers`);
+    expect(second.searchParams.get('after')).toBe('c1');
+    expect(second.searchParams.get('limit')).toBe('1');
+    expect(second.searchParams.get('fields')?.split(',')).toEqual(
+      expect.arrayContaining(['quality_rating', 'messaging_limit_tier', 'name_status', 'code_verification_status']),
+    );
+  });
+
+  it('get reads the phone number node', async () => {
+    responses.push({ id: 'pn_1', name_status: 'APPROVED', code_verification_status: 'VERIFIED' });
+    const number = await createClient().phoneNumbers.get('pn_1');
+    expect(number.name_status).toBe('APPROVED');
+    expect(captured[0].url.startsWith(`${GRAPH}/pn_1?fields=`)).toBe(true);
+  });
+
+  it('requestCode and verifyCode post to the verification edges', async () => {
+    const numbers = createClient().phoneNumbers;
+    await numbers.requestCode('pn_1', { method: 'VOICE', language: 'es' });
+    await numbers.requestCode('pn_1');
+    await numbers.verifyCode('pn_1', '123456');
+    expect(captured.map((c) => [c.url, c.body])).toEqual([
+      [`${GRAPH}/pn_1/request_code`, { code_method: 'VOICE', language: 'es' }],
+      [`${GRAPH}/pn_1/request_code`, { code_method: 'SMS', language: 'en_US' }],
+      [`${GRAPH}/pn_1/verify_code`, { code: '123456' }],
+    ]);
+  });
+
+  it('register, deregister and setTwoStepPin send the PIN where required', async () => {
+    const numbers = createClient().phoneNumbers;
+    await numbers.register('pn_1', '654321', { dataLocalizationRegion: 'DE' });
+    await numbers.deregister('pn_1');
+    await numbers.setTwoStepPin('pn_1', '111222');
+    expect(captured.map((c) => [c.method, c.url, c.body])).toEqual([
+      ['POST', `${GRAPH}/pn_1/register`, { messaging_product: 'whatsapp', pin: '654321', data_localization_region: 'DE' }],
+      ['POST', `${GRAPH}/pn_1/deregister`, {}],
+      ['POST', `${GRAPH}/pn_1`, { pin: '111222' }],
+    ]);
+  });
+
+  it('throws WabaIdNotConfiguredError when listing without wabaId', async () => {
+    await expect(createClient({}).phoneNumbers.listPage()).rejects.toThrow(WabaIdNotConfiguredError);
+  });
+});
+
+describe('MockWhatsAppClient.phoneNumbers', () => {
+  it('tracks verification and registration on the stored number', async () => {
+    const mock = new MockWhatsAppClient();
+    mock.phoneNumbers.store.push({
+      id: 'pn_1',
+      display_phone_number: '+1 555-0100',
+      verified_name: 'Acme',
+      quality_rating: 'UNKNOWN',
+      code_verification_status: 'NOT_VERIFIED',
+    });
+    await mock.phoneNumbers.verifyCode('pn_1', '123456');
+    await mock.phoneNumbers.register('pn_1', '654321');
+    expect(await mock.phoneNumbers.get('pn_1')).toMatchObject({ code_verification_status: 'VERIFIED', status: 'CONNECTED' });
+    expect(mock.callsFor('phoneNumbers.register')[0].args).toEqual(['pn_1', '654321', undefined]);
+  });
+});
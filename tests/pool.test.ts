@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+
+import { SendCancelledError, TenantConflictError } from '../src/errors';
+import { WhatsAppClientPool } from '../src/pool';
+import type { PoolTenant } from '../src/pool';
+import type { AccountEvent, InboundMessage, WebhookChangeValue, WebhookPayload } from '../src/types';
+
+const APP_SECRET = 'pool-app-secret';
+
+function sign(body: string, secret = APP_SECRET): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function messageChange(phoneNumberId: string, text: string) {
+  return {
+    field: 'messages',
+    value: {
+      messaging_product: 'whatsapp',
+      metadata: { display_phone_number: `1555${phoneNumberId}`, phone_number_id: phoneNumberId },
+      messages: [{ from: '5215500000000', id: `wamid.${text}`, timestamp: '1700000000', type: 'text', text: { body: text } }],
+    },
+  };
+}
+
+function payload(...changes: Array<{ field: string; value: unknown }>): WebhookPayload {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [{ id: 'WABA_A', changes: changes.map((c) => ({ field: c.field, value: c.value as WebhookChangeValue })) }],
+  };
+}
+
+function createPool(): WhatsAppClientPool {
+  return new WhatsAppClientPool({
+    defaults: { appSecret: APP_SECRET, http: { maxRetries: 0 } },
+    tenants: {
+      acme: { accessToken: 'a', phoneNumberId: '1001', wabaId: 'WABA_A' },
+      globex: { accessToken: 'g', phoneNumberId: '1002', wabaId: 'WABA_A' },
+    },
+  });
+}
+
+function deliver(pool: WhatsAppClientPool, body: WebhookPayload, secret?: string): void {
+  const rawBody = JSON.stringify(body);
+  pool.handleWebhook({ rawBody, signature: sign(rawBody, secret), body });
+}
+
+describe('WhatsAppClientPool', () => {
+  it('routes each change to the client of its phone_number_id', () => {
+    const pool = createPool();
+    const acme: string[] = [];
+    const globex: string[] = [];
+    pool.get('acme')!.client.on('message:text', (m) => acme.push(m.text));
+    pool.get('globex')!.client.on('message:text', (m) => globex.push(m.text));
+
+    deliver(pool, payload(messageChange('1001', 'one'), messageChange('1002', 'two'), messageChange('1001', 'three')));
+
+    expect(acme).toEqual(['one', 'three']);
+    expect(globex).toEqual(['two']);
+  });
+
+  it('emits pooled events tagged with the tenant', () => {
+    const pool = createPool();
+    const seen: Array<[InboundMessage, PoolTenant]> = [];
+    pool.on('message', (msg, tenant) => seen.push([msg, tenant]));
+
+    deliver(pool, payload(messageChange('1002', 'hi')));
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0][0].phoneNumberId).toBe('1002');
+    expect(seen[0][1].id).toBe('globex');
+    expect(seen[0][1].client).toBe(pool.get('globex')!.client);
+  });
+
+  it('routes WABA-level changes to every tenant of that WABA', () => {
+    const pool = createPool();
+    const events: Array<[AccountEvent, string]> = [];
+    pool.on('account:review', (e, tenant) => events.push([e, tenant.id]));
+
+    deliver(pool, payload({ field: 'account_review_update', value: { decision: 'APPROVED' } }));
+
+    const event = expect.objectContaining({ decision: 'APPROVED', wabaId: 'WABA_A' });
+    expect(events).toEqual([[event, 'acme'], [event, 'globex']]);
+  });
+
+  it('adds and removes tenants at runtime', () => {
+    const pool = createPool();
+    const tenants: string[] = [];
+    const unrouted: Array<string | undefined> = [];
+    pool.on('message', (_msg, tenant) => tenants.push(tenant.id));
+    pool.on('unrouted', (_payload, phoneNumberId) => unrouted.push(phoneNumberId));
+
+    pool.add('initech', { accessToken: 'i', phoneNumberId: '1003' });
+    deliver(pool, payload(messageChange('1003', 'new')));
+    expect(pool.remove('initech')).toBe(true);
+    deliver(pool, payload(messageChange('1003', 'gone')));
+
+    expect(tenants).toEqual(['initech']);
+    expect(unrouted).toEqual(['1003']);
+    expect(pool.size).toBe(2);
+    expect(pool.remove('initech')).toBe(false);
+  });
+
+  it('closes the client of a removed tenant', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => JSON.stringify({ messages: [{ id: 'wamid.1' }] }),
+    })) as unknown as typeof fetch;
+    try {
+      const pool = createPool();
+      const client = pool.add('initech', { accessToken: 'i', phoneNumberId: '1003', rateLimit: { burst: 1 } });
+      const sends = [client.sendText('1', 'a'), client.sendText('2', 'b')].map((p) => p.catch((e: unknown) => e));
+
+      pool.remove('initech');
+
+      expect(await sends[0]).toEqual({ wamid: 'wamid.1' });
+      expect(await sends[1]).toBeInstanceOf(SendCancelledError);
+      await expect(client.sendText('3', 'c')).rejects.toBeInstanceOf(SendCancelledError);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('drops unrouted changes whose signature matches no pool secret', () => {
+    const pool = createPool();
+    const unrouted: Array<string | undefined> = [];
+    pool.on('unrouted', (_payload, phoneNumberId) => unrouted.push(phoneNumberId));
+
+    const body = payload(messageChange('9999', 'forged'));
+    pool.handleWebhook({ rawBody: JSON.stringify(body), signature: 'sha256=deadbeef', body });
+    expect(unrouted).toEqual([]);
+
+    deliver(pool, body);
+    expect(unrouted).toEqual(['9999']);
+  });
+
+  it('rejects duplicate tenant IDs and phone numbers', () => {
+    const pool = createPool();
+    expect(() => pool.add('acme', { accessToken: 'x', phoneNumberId: '2000' })).toThrow(TenantConflictError);
+    expect(() => pool.add('other', { accessToken: 'x', phoneNumberId: '1001' })).toThrow(/belongs to "acme"/);
+  });
+
+  it('verifies the signature with the receiving tenant secret before dispatching', () => {
+    const pool = createPool();
+    pool.add('separate-app', { accessToken: 's', phoneNumberId: '1004', appSecret: 'other-secret' });
+    const received: string[] = [];
+    pool.on('message', (_msg, tenant) => received.push(tenant.id));
+
+    expect(() => deliver(pool, payload(messageChange('1001', 'a'), messageChange('1004', 'b')))).toThrow(
+      /Invalid webhook signature for tenant "separate-app"/,
+    );
+    expect(received).toEqual([]);
+
+    deliver(pool, payload(messageChange('1004', 'b')), 'other-secret');
+    expect(received).toEqual(['separate-app']);
+  });
+});
@@ -0,0 +1,141 @@
+import { WhatsAppClient } from '../src/client';
+import { SendCancelledError } from '../src/errors';
+import { RateLimiter } from '../src/rate-limiter';
+
+/**
+ * Test suite for the outbound `RateLimiter` and its use by `WhatsAppClient`.
+ */
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+/** Schedule jobs that record when they ran (ms since the test started). */
+function recorder(limiter: RateLimiter) {
+  const start = Date.now();
+  const ran: Array<[string, number]> = [];
+  const send = (recipient: string, label = recipient) =>
+    limiter.schedule('PID', recipient, async () => {
+      ran.push([label, Date.now() - start]);
+      return label;
+    });
+  return { ran, send };
+}
+
+describe('RateLimiter', () => {
+  it('paces a number with a token bucket', async () => {
+    const limiter = new RateLimiter({ messagesPerSecond: 2, burst: 2, perRecipientIntervalMs: 0 });
+    const { ran, send } = recorder(limiter);
+
+    const results = Promise.all(['a', 'b', 'c', 'd'].map((r) => send(r)));
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    expect(await results).toEqual(['a', 'b', 'c', 'd']);
+    expect(ran).toEqual([['a', 0], ['b', 0], ['c', 500], ['d', 1_000]]);
+  });
+
+  it('keeps the per-recipient gap without holding up other recipients', async () => {
+    const limiter = new RateLimiter({ perRecipientIntervalMs: 6_000 });
+    const { ran, send } = recorder(limiter);
+
+    void send('a', 'a1');
+    void send('a', 'a2');
+    void send('b', 'b1');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(ran).toEqual([['a1', 0], ['b1', 0]]);
+
+    await jest.advanceTimersByTimeAsync(6_000);
+    expect(ran).toEqual([['a1', 0], ['b1', 0], ['a2', 6_000]]);
+  });
+
+  it('reports queue depth and cancels queued sends', async () => {
+    const limiter = new RateLimiter({ perRecipientIntervalMs: 6_000 });
+    const { ran, send } = recorder(limiter);
+
+    void send('a', 'a1');
+    const queued = [send('a', 'a2'), send('a', 'a3'), send('b', 'b1')].map((p) => p.catch((e: unknown) => e));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(limiter.metrics()).toEqual({
+      queued: 2,
+      phoneNumbers: { PID: { queued: 2, recipients: 1, availableTokens: 78 } },
+    });
+
+    expect(limiter.cancel({ recipient: 'a' })).toBe(2);
+    const [a2, a3] = await Promise.all(queued);
+    expect(a2).toBeInstanceOf(SendCancelledError);
+    expect((a3 as SendCancelledError).recipient).toBe('a');
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(ran.map(([label]) => label)).toEqual(['a1', 'b1']);
+    expect(limiter.metrics().queued).toBe(0);
+  });
+
+  it('close rejects queued and later sends', async () => {
+    const limiter = new RateLimiter({ perRecipientIntervalMs: 6_000 });
+    const { ran, send } = recorder(limiter);
+
+    void send('a', 'a1');
+    const queued = send('a', 'a2').catch((e: unknown) => e);
+    await jest.advanceTimersByTimeAsync(0);
+
+    limiter.close();
+    expect(await queued).toBeInstanceOf(SendCancelledError);
+    await expect(send('b')).rejects.toBeInstanceOf(SendCancelledError);
+    expect(jest.getTimerCount()).toBe(0);
+    expect(ran.map(([label]) => label)).toEqual(['a1']);
+    expect(limiter.metrics()).toEqual({ queued: 0, phoneNumbers: {} });
+  });
+});
+
+describe('WhatsAppClient rateLimit', () => {
+  const originalFetch = globalThis.fetch;
+  let sentTo: string[] = [];
+
+  beforeEach(() => {
+    sentTo = [];
+    globalThis.fetch = jest.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      sentTo.push((JSON.parse(String(init?.body)) as { to: string }).to);
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ messages: [{ id: `wamid.${sentTo.length}` }] }),
+      } as Response;
+    });
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('queues every send method through the limiter', async () => {
+    const client = new WhatsAppClient({
+      accessToken: 'token',
+      phoneNumberId: 'phone',
+      rateLimit: { perRecipientIntervalMs: 1_000 },
+    });
+
+    const first = client.sendText('+52 1 55 0000 0000', 'one');
+    const second = client.sendReaction('5215500000000', 'wamid.x', '👍');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sentTo).toEqual(['+52 1 55 0000 0000']);
+    expect(client.rateLimiter?.metrics().phoneNumbers.phone.queued).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(await first).toEqual({ wamid: 'wamid.1' });
+    expect(await second).toEqual({ wamid: 'wamid.2' });
+  });
+
+  it('shares a RateLimiter passed in the config', () => {
+    const limiter = new RateLimiter();
+    const a = new WhatsAppClient({ accessToken: 't', phoneNumberId: 'p1', rateLimit: limiter });
+    const b = new WhatsAppClient({ accessToken: 't', phoneNumberId: 'p2', rateLimit: limiter });
+    expect(a.rateLimiter).toBe(limiter);
+    expect(b.rateLimiter).toBe(limiter);
+  });
+});
@@ -0,0 +1,200 @@
+import { WhatsAppClient } from '../src/client';
+import { TemplateValidationError } from '../src/errors';
+import { validateTemplateComponents } from '../src/template-preflight';
+import type { MessageTemplate, TemplateComponent } from '../src/types';
+
+const ORDER_TEMPLATE: MessageTemplate = {
+  id: 'tpl_1',
+  name: 'order_update',
+  language: 'en_US',
+  status: 'APPROVED',
+  category: 'UTILITY',
+  components: [
+    { type: 'HEADER', format: 'IMAGE', example: { header_handle: ['h'] } },
+    { type: 'BODY', text: 'Hi {{1}}, order {{2}} is {{3}}.' },
+    {
+      type: 'BUTTONS',
+      buttons: [
+        { type: 'URL', text: 'Track', url: 'https://example.com/track/{{1}}' },
+        { type: 'PHONE_NUMBER', text: 'Call', phone_number: '+15550001234' },
+      ],
+    },
+  ],
+};
+
+let sent: string[] = [];
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  sent = [];
+  globalThis.fetch = jest.fn(async (input: RequestInfo | URL) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    sent.push(url);
+    const body = url.includes('/message_templates')
+      ? { data: [ORDER_TEMPLATE, { ...ORDER_TEMPLATE, id: 'tpl_2', name: 'order_update_v2' }] }
+      : { messages: [{ id: 'wamid.ok' }] };
+    return { ok: true, status: 200, headers: new Headers(), text: async () => JSON.stringify(body) } as Response;
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function createClient(): WhatsAppClient {
+  return new WhatsAppClient({
+    accessToken: 'token',
+    phoneNumberId: 'phone',
+    wabaId: 'waba',
+    templatePreflight: true,
+    http: { maxRetries: 0 },
+  });
+}
+
+const VALID: TemplateComponent[] = [
+  { type: 'header', parameters: [{ type: 'image', image: { url: 'https://x/y.jpg' } }] },
+  {
+    type: 'body',
+    parameters: [
+      { type: 'text', text: 'Ana' },
+      { type: 'text', text: '#42' },
+      { type: 'text', text: 'shipped' },
+    ],
+  },
+  { type: 'button', sub_type: 'url', index: '0', parameters: [{ type: 'text', text: '42' }] },
+];
+
+describe('sendTemplate preflight', () => {
+  it('sends when the components match the definition', async () => {
+    const res = await createClient().sendTemplate('123', 'order_update', { components: VALID });
+    expect(res.wamid).toBe('wamid.ok');
+    expect(sent.filter((u) => u.endsWith('/messages'))).toHaveLength(1);
+  });
+
+  it('throws before sending on a parameter count mismatch', async () => {
+    const err = await createClient()
+      .sendTemplate('123', 'order_update', { components: [VALID[0], { type: 'body', parameters: [{ type: 'text', text: 'Ana' }] }, VALID[2]] })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(TemplateValidationError);
+    expect((err as TemplateValidationError).issues).toEqual(['body: expects 3 parameter(s) but got 1']);
+    expect(sent.filter((u) => u.endsWith('/messages'))).toHaveLength(0);
+  });
+
+  it('reports a missing language with the available ones', async () => {
+    await expect(
+      createClient().sendTemplate('123', 'order_update', { language: 'es_MX', components: VALID }),
+    ).rejects.toThrow('no "es_MX" translation (available: en_US)');
+  });
+
+  it('reports unknown templates', async () => {
+    await expect(createClient().sendTemplate('123', 'nope')).rejects.toThrow('no template named "nope" exists');
+  });
+
+  it('caches the definition between sends', async () => {
+    const client = createClient();
+    await client.sendTemplate('123', 'order_update', { components: VALID });
+    await client.sendTemplate('456', 'order_update', { components: VALID });
+    expect(sent.filter((u) => u.includes('/message_templates'))).toHaveLength(1);
+
+    client.clearTemplateCache('order_update');
+    await client.sendTemplate('789', 'order_update', { components: VALID });
+    expect(sent.filter((u) => u.includes('/message_templates'))).toHaveLength(2);
+  });
+
+  it('can be disabled per call', async () => {
+    await createClient().sendTemplate('123', 'order_update', { preflight: false });
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe('validateTemplateComponents', () => {
+  it('checks media header types', () => {
+    const issues = validateTemplateComponents(ORDER_TEMPLATE, [
+      { type: 'header', parameters: [{ type: 'video', video: { id: 'v' } }] },
+      VALID[1],
+      VALID[2],
+    ]);
+    expect(issues).toEqual(['header: expects a parameter of type "image" but got "video"']);
+  });
+
+  it('checks button indexes, sub types and required buttons', () => {
+    const issues = validateTemplateComponents(ORDER_TEMPLATE, [
+      VALID[0],
+      VALID[1],
+      { type: 'button', sub_type: 'quick_reply', index: '1', parameters: [{ type: 'payload', payload: 'x' }] },
+      { type: 'button', sub_type: 'url', index: '5', parameters: [{ type: 'text', text: 'x' }] },
+    ]);
+    expect(issues).toEqual([
+      'button 1: PHONE_NUMBER button takes no parameters',
+      'button 5: template has only 2 button(s)',
+      'button 0: URL button requires a parameter but none was supplied',
+    ]);
+  });
+
+  it('matches named placeholders by parameter_name', () => {
+    const named: MessageTemplate = {
+      ...ORDER_TEMPLATE,
+      parameter_format: 'NAMED',
+      components: [{ type: 'BODY', text: 'Hi {{first_name}}, {{first_name}} your code is {{code}}' }],
+    };
+    expect(
+      validateTemplateComponents(named, [
+        {
+          type: 'body',
+          parameters: [
+            { type: 'text', text: 'Ana', parameter_name: 'first_name' },
+            { type: 'text', text: '123', parameter_name: 'code' },
+          ],
+        },
+      ]),
+    ).toEqual([]);
+    expect(
+      validateTemplateComponents(named, [
+        {
+          type: 'body',
+          parameters: [
+            { type: 'text', text: 'Ana', parameter_name: 'name' },
+            { type: 'text', text: '123', parameter_name: 'code' },
+          ],
+        },
+      ]),
+    ).toEqual(['body: missing named parameter(s) first_name', 'body: unexpected parameter(s) name']);
+  });
+
+  it('validates carousel cards and limited-time offers', () => {
+    const card = {
+      components: [
+        { type: 'HEADER' as const, format: 'IMAGE' as const },
+        { type: 'BODY' as const, text: 'Only {{1}} left' },
+        { type: 'BUTTONS' as const, buttons: [{ type: 'QUICK_REPLY' as const, text: 'Buy' }] },
+      ],
+    };
+    const promo: MessageTemplate = {
+      ...ORDER_TEMPLATE,
+      components: [
+        { type: 'LIMITED_TIME_OFFER', limited_time_offer: { text: 'Sale', has_expiration: true } },
+        { type: 'BODY', text: 'Big sale' },
+        { type: 'CAROUSEL', cards: [card, card] },
+      ],
+    };
+    const issues = validateTemplateComponents(promo, [
+      {
+        type: 'carousel',
+        cards: [
+          {
+            card_index: 0,
+            components: [
+              { type: 'header', parameters: [{ type: 'image', image: { id: 'img' } }] },
+              { type: 'body', parameters: [{ type: 'text', text: '3' }] },
+            ],
+          },
+          { card_index: 3, components: [] },
+        ],
+      },
+    ]);
+    expect(issues).toEqual([
+      'limited_time_offer: template has an expiration but none was supplied',
+      'card 3: template has only 2 card(s)',
+    ]);
+  });
+});
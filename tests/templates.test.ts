@@ -0,0 +1,133 @@
+import { WhatsAppClient } from '../src/client';
+import { WabaIdNotConfiguredError } from '../src/errors';
+import { MockWhatsAppClient } from '../src/testing/index';
+
+/**
+ * Test suite for `client.templates` (WABA `message_templates` edge).
+ */
+
+const WABA_ID = '987654321';
+const GRAPH = 'https://graph.facebook.com/v21.0';
+
+interface CapturedRequest {
+  url: string;
+  method: string;
+  body: Record<string, unknown>;
+}
+
+let captured: CapturedRequest[] = [];
+let responses: unknown[] = [];
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  captured = [];
+  responses = [];
+  globalThis.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : {};
+    captured.push({ url, method: init?.method ?? 'GET', body });
+    const next = responses.shift() ?? { success: true };
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: async () => JSON.stringify(next),
+    } as Response;
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function createClient({ wabaId }: { wabaId?: string } = { wabaId: WABA_ID }): WhatsAppClient {
+  return new WhatsAppClient({
+    accessToken: 'token',
+    phoneNumberId: 'phone',
+    wabaId,
+    http: { maxRetries: 0 },
+  });
+}
+
+describe('client.templates', () => {
+  it('create posts the definition to the WABA edge', async () => {
+    responses.push({ id: 'tpl_1', status: 'PENDING', category: 'UTILITY' });
+    const res = await createClient().templates.create({
+      name: 'order_update',
+      language: 'en_US',
+      category: 'UTILITY',
+      components: [
+        { type: 'HEADER', format: 'TEXT', text: 'Order {{1}}', example: { header_text: ['#42'] } },
+        { type: 'BODY', text: 'Hi {{1}}, your order shipped.', example: { body_text: [['Ana']] } },
+        { type: 'FOOTER', text: 'Thanks!' },
+        { type: 'BUTTONS', buttons: [{ type: 'QUICK_REPLY', text: 'Track' }] },
+      ],
+    });
+    expect(res).toEqual({ id: 'tpl_1', status: 'PENDING', category: 'UTILITY' });
+    expect(captured[0].url).toBe(`${GRAPH}/${WABA_ID}/message_templates`);
+    expect(captured[0].method).toBe('POST');
+    expect(captured[0].body.name).toBe('order_update');
+    expect(captured[0].body.components).toHaveLength(4);
+  });
+
+  it('list iterates across pages', async () => {
+    responses.push(
+      { data: [{ id: '1', name: 'a' }, { id: '2', name: 'b' }], paging: { cursors: { after: 'C1' }, next: 'https://next' } },
+      { data: [{ id: '3', name: 'c' }], paging: { cursors: { after: 'C2' } } },
+    );
+    const names: string[] = [];
+    for await (const tpl of createClient().templates.list({ status: 'APPROVED', limit: 2 })) {
+      names.push(tpl.name);
+    }
+    expect(names).toEqual(['a', 'b', 'c']);
+    expect(captured).toHaveLength(2);
+    expect(captured[0].url).toBe(`${GRAPH}/${WABA_ID}/message_templates?status=APPROVED&limit=2`);
+    expect(captured[1].url).toContain('after=C1');
+  });
+
+  it('listPage returns the next cursor only when there is a next page', async () => {
+    responses.push({ data: [], paging: { cursors: { after: 'LAST' } } });
+    const page = await createClient().templates.listPage();
+    expect(page).toEqual({ data: [], after: undefined });
+  });
+
+  it('get, update and delete hit the expected endpoints', async () => {
+    const client = createClient();
+    responses.push({ id: 'tpl_1', name: 'x' });
+    await client.templates.get('tpl_1');
+    await client.templates.update('tpl_1', { category: 'MARKETING' });
+    await client.templates.delete('order_update', 'tpl_1');
+
+    expect(captured[0]).toMatchObject({ url: `${GRAPH}/tpl_1`, method: 'GET' });
+    expect(captured[1]).toMatchObject({ url: `${GRAPH}/tpl_1`, method: 'POST', body: { category: 'MARKETING' } });
+    expect(captured[2]).toMatchObject({
+      url: `${GRAPH}/${WABA_ID}/message_templates?name=order_update&hsm_id=tpl_1`,
+      method: 'DELETE',
+    });
+  });
+
+  it('throws WabaIdNotConfiguredError without wabaId', async () => {
+    await expect(createClient({}).templates.listPage()).rejects.toThrow(WabaIdNotConfiguredError);
+    expect(captured).toHaveLength(0);
+  });
+});
+
+describe('MockWhatsAppClient.templates', () => {
+  it('stores created templates and records calls', async () => {
+    const mock = new MockWhatsAppClient();
+    const { id } = await mock.templates.create({
+      name: 'welcome',
+      language: 'en_US',
+      category: 'MARKETING',
+      components: [{ type: 'BODY', text: 'Welcome!' }],
+    });
+    const listed: string[] = [];
+    for await (const t of mock.templates.list({ category: 'MARKETING' })) listed.push(t.id);
+    expect(listed).toEqual([id]);
+
+    await mock.templates.delete('welcome');
+    expect((await mock.templates.listPage()).data).toHaveLength(0);
+    expect(mock.callsFor('templates.create')).toHaveLength(1);
+  });
+});
@@ -1,4 +1,5 @@
-import { parseIncoming, parseStatuses } from '../src/parse-incoming';
+import { InteractiveValidationError } from '../src/errors';
+import { parseIncoming, parsePaymentStatuses, parseStatuses } from '../src/parse-incoming';
 import { MockWhatsAppClient, createMockWebhookPayload } from '../src/testing/index';
 
 describe('MockWhatsAppClient', () => {
@@ -31,6 +32,23 @@ describe('MockWhatsAppClient', () => {
     expect(mock.callsFor('markAsRead')).toHaveLength(1);
   });
 
+  it('validates product interactive messages like the real client', async () => {
+    const mock = new MockWhatsAppClient();
+    await mock.sendInteractive('1', {
+      type: 'product',
+      action: { catalog_id: 'cat_1', product_retailer_id: 'sku_1' },
+    });
+    await expect(
+      mock.sendInteractive('1', {
+        type: 'product_list',
+        header: { type: 'text', text: 'Menu' },
+        body: { text: 'Pick' },
+        action: { catalog_id: 'cat_1', sections: [] },
+      }),
+    ).rejects.toThrow(InteractiveValidationError);
+    expect(mock.callsFor('sendInteractive')).toHaveLength(1);
+  });
+
   it('records media methods', async () => {
     const mock = new MockWhatsAppClient();
     const upload = await mock.uploadMedia(Buffer.from('data'), 'image/png');
@@ -83,6 +101,21 @@ describe('createMockWebhookPayload', () => {
     expect(msgs[0].type).toBe('image');
   });
 
+  it('creates a template quick-reply button payload', () => {
+    const payload = createMockWebhookPayload('button', { button: { payload: 'YES' } });
+    const msgs = parseIncoming(payload);
+    expect(msgs[0].type).toBe('button');
+    if (msgs[0].type === 'button') {
+      expect(msgs[0].button.payload).toBe('YES');
+    }
+  });
+
+  it('passes a raw context through to the generated message', () => {
+    const payload = createMockWebhookPayload('text', { context: { id: 'wamid.quoted', forwarded: true } });
+    const msgs = parseIncoming(payload);
+    expect(msgs[0].context).toEqual({ messageId: 'wamid.quoted', forwarded: true });
+  });
+
   it('creates a status payload', () => {
     const payload = createMockWebhookPayload('status', {
       status: 'read',
@@ -93,10 +126,19 @@ describe('createMockWebhookPayload', () => {
     expect(statuses[0].status).toBe('read');
   });
 
+  it('creates a payment status payload', () => {
+    const payload = createMockWebhookPayload('payment', { status: 'failed' });
+    expect(parseStatuses(payload)).toHaveLength(0);
+    const payments = parsePaymentStatuses(payload);
+    expect(payments).toHaveLength(1);
+    expect(payments[0].status).toBe('failed');
+    expect(payments[0].referenceId).toBe('order-ref-1');
+  });
+
   it('creates payloads for all message types', () => {
-    const types: Array<'text' | 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'location' | 'contacts' | 'reaction' | 'order' | 'system' | 'referral'> = [
+    const types: Array<'text' | 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'location' | 'contacts' | 'reaction' | 'button' | 'order' | 'system' | 'referral'> = [
       'text', 'image', 'video', 'audio', 'document', 'sticker',
-      'location', 'contacts', 'reaction', 'order', 'system', 'referral',
+      'location', 'contacts', 'reaction', 'button', 'order', 'system', 'referral',
     ];
 
     for (const t of types) {
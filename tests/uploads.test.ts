@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { WhatsAppClient } from '../src/client';
+import { AppIdNotConfiguredError, UploadInterruptedError } from '../src/errors';
+import type { UploadProgress } from '../src/types';
+
+/**
+ * Test suite for `client.uploads` (Graph resumable upload sessions).
+ */
+
+const APP_ID = '555';
+const GRAPH = 'https://graph.facebook.com/v21.0';
+
+interface CapturedRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body?: string;
+}
+
+let captured: CapturedRequest[] = [];
+let responses: Array<{ status: number; body: unknown }> = [];
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  captured = [];
+  responses = [];
+  globalThis.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    const body = init?.body instanceof Uint8Array ? Buffer.from(init.body).toString('utf-8') : undefined;
+    captured.push({ url, method: init?.method ?? 'GET', headers: new Headers(init?.headers), body });
+    const next = responses.shift() ?? { status: 200, body: {} };
+    return {
+      ok: next.status < 300,
+      status: next.status,
+      headers: new Headers(),
+      text: async () => JSON.stringify(next.body),
+    } as Response;
+  });
+});
+
+afterAll(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function createClient(appId: string | undefined = APP_ID): WhatsAppClient {
+  return new WhatsAppClient({ accessToken: 'token', phoneNumberId: 'phone', appId, http: { maxRetries: 0 } });
+}
+
+const ok = (body: unknown) => ({ status: 200, body });
+
+describe('client.uploads', () => {
+  it('uploads a buffer in one request and reports progress', async () => {
+    responses.push(ok({ id: 'upload:s1' }), ok({ h: 'HANDLE' }));
+    const progress: UploadProgress[] = [];
+    const res = await createClient().uploads.upload(Buffer.from('hello world'), {
+      mimeType: 'image/png',
+      fileName: 'logo.png',
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(res).toEqual({ handle: 'HANDLE', sessionId: 'upload:s1' });
+    expect(captured[0].url).toBe(`${GRAPH}/${APP_ID}/uploads?file_length=11&file_type=image%2Fpng&file_name=logo.png`);
+    expect(captured[1]).toMatchObject({ url: `${GRAPH}/upload:s1`, method: 'POST', body: 'hello world' });
+    expect(captured[1].headers.get('Authorization')).toBe('OAuth token');
+    expect(captured[1].headers.get('file_offset')).toBe('0');
+    expect(progress.map((p) => p.uploadedBytes)).toEqual([0, 11]);
+  });
+
+  it('streams a file from disk in chunks', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wa-upload-'));
+    const file = path.join(dir, 'clip.mp4');
+    await fs.writeFile(file, 'abcdefghij');
+    try {
+      responses.push(ok({ id: 'upload:s2' }), ok({}), ok({ id: 'upload:s2', file_offset: 4 }), ok({}), ok({ file_offset: 8 }), ok({ h: 'H2' }));
+      const progress: number[] = [];
+      const res = await createClient().uploads.upload({ path: file }, {
+        mimeType: 'video/mp4',
+        chunkSize: 4,
+        onProgress: (p) => progress.push(p.uploadedBytes),
+      });
+      expect(res.handle).toBe('H2');
+      const posts = captured.filter((c) => c.url === `${GRAPH}/upload:s2` && c.method === 'POST');
+      expect(posts.map((c) => [c.headers.get('file_offset'), c.body])).toEqual([
+        ['0', 'abcd'],
+        ['4', 'efgh'],
+        ['8', 'ij'],
+      ]);
+      expect(progress).toEqual([0, 4, 8, 10]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('resumes from the server offset after a failed request', async () => {
+    responses.push(
+      ok({ id: 'upload:s3' }),
+      { status: 503, body: { error: { message: 'service unavailable' } } },
+      ok({ file_offset: 3 }),
+      ok({ h: 'H3' }),
+    );
+    const res = await createClient().uploads.upload(Buffer.from('abcdef'), { mimeType: 'image/jpeg' });
+    expect(res.handle).toBe('H3');
+    expect(captured[2]).toMatchObject({ url: `${GRAPH}/upload:s3`, method: 'GET' });
+    expect(captured[3].headers.get('file_offset')).toBe('3');
+    expect(captured[3].body).toBe('def');
+  });
+
+  it('throws UploadInterruptedError with the session to resume once attempts are exhausted', async () => {
+    responses.push(
+      ok({ id: 'upload:s4' }),
+      { status: 500, body: { error: { message: 'fail' } } },
+      ok({ file_offset: 2 }),
+      { status: 500, body: { error: { message: 'fail again' } } },
+    );
+    const err = await createClient()
+      .uploads.upload(Buffer.from('abcdef'), { mimeType: 'image/jpeg', maxResumeAttempts: 1 })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(UploadInterruptedError);
+    expect((err as UploadInterruptedError).sessionId).toBe('upload:s4');
+    expect((err as UploadInterruptedError).offset).toBe(2);
+
+    responses = [ok({ file_offset: 2 }), ok({ h: 'H4' })];
+    const resumed = await createClient().uploads.upload(Buffer.from('abcdef'), {
+      mimeType: 'image/jpeg',
+      sessionId: 'upload:s4',
+    });
+    expect(resumed.handle).toBe('H4');
+    expect(captured.at(-1)?.body).toBe('cdef');
+  });
+
+  it('counts chunks that do not advance the server offset as failed attempts', async () => {
+    responses.push(ok({ id: 'upload:s5' }), ok({}), ok({ file_offset: 0 }), ok({}), ok({ file_offset: 0 }));
+    const err = await createClient()
+      .uploads.upload(Buffer.from('abcdef'), { mimeType: 'image/jpeg', chunkSize: 3, maxResumeAttempts: 1 })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(UploadInterruptedError);
+    expect((err as UploadInterruptedError).message).toMatch(/did not advance/);
+    expect(captured.filter((c) => c.method === 'POST' && c.url === `${GRAPH}/upload:s5`)).toHaveLength(2);
+  });
+
+  it('does not resume after an error retrying cannot fix', async () => {
+    responses.push(ok({ id: 'upload:s6' }), { status: 400, body: { error: { message: 'Invalid parameter', code: 100 } } });
+    const err = await createClient()
+      .uploads.upload(Buffer.from('abcdef'), { mimeType: 'image/jpeg' })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(UploadInterruptedError);
+    expect((err as UploadInterruptedError).sessionId).toBe('upload:s6');
+    expect(captured).toHaveLength(2);
+  });
+
+  it('throws AppIdNotConfiguredError without appId', async () => {
+    await expect(createClient('').uploads.upload(Buffer.from('x'), { mimeType: 'image/png' })).rejects.toThrow(
+      AppIdNotConfiguredError,
+    );
+  });
+});
@@ -1,7 +1,17 @@
 import crypto from 'crypto';
 
 import { WhatsAppClient, verifyWebhookSignature } from '../src/client';
-import type { WebhookPayload, InboundMessage, StatusUpdate } from '../src/types';
+import type {
+  AccountEvent,
+  WebhookChangeValue,
+  WebhookPayload,
+  InboundMessage,
+  PaymentStatusUpdate,
+  PhoneNumberQualityUpdate,
+  StatusUpdate,
+  TemplateEvent,
+} from '../src/types';
+import { createExpressMiddleware } from '../src/webhook';
 
 const APP_SECRET = 'test-app-secret-123';
 
@@ -33,6 +43,38 @@ describe('verifyWebhookSignature (standalone)', () => {
   });
 });
 
+const TEMPLATE_PAYLOAD: WebhookPayload = {
+  object: 'whatsapp_business_account',
+  entry: [
+    {
+      id: 'WABA',
+      time: 1700000000,
+      changes: [
+        {
+          field: 'message_template_status_update',
+          value: {
+            event: 'REJECTED',
+            message_template_id: 42,
+            message_template_name: 'order_update',
+            message_template_language: 'en_US',
+            reason: 'INCORRECT_CATEGORY',
+          } as unknown as WebhookChangeValue,
+        },
+        {
+          field: 'template_category_update',
+          value: {
+            message_template_id: 42,
+            message_template_name: 'order_update',
+            message_template_language: 'en_US',
+            previous_category: 'UTILITY',
+            new_category: 'MARKETING',
+          } as unknown as WebhookChangeValue,
+        },
+      ],
+    },
+  ],
+};
+
 describe('WhatsAppClient.handleWebhook', () => {
   // Mock fetch globally so constructing client doesn't fail
   const originalFetch = globalThis.fetch;
@@ -131,6 +173,108 @@ describe('WhatsAppClient.handleWebhook', () => {
     expect(statuses[0].status).toBe('delivered');
   });
 
+  it('emits payment events separately from message statuses', () => {
+    const client = new WhatsAppClient({
+      accessToken: 'token',
+      phoneNumberId: 'phone',
+      appSecret: APP_SECRET,
+    });
+
+    const statuses: StatusUpdate[] = [];
+    const payments: PaymentStatusUpdate[] = [];
+    const captured: PaymentStatusUpdate[] = [];
+    client.on('status', (s) => statuses.push(s));
+    client.on('payment', (p) => payments.push(p));
+    client.on('payment:captured', (p) => captured.push(p));
+
+    const payload: WebhookPayload = {
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: '123',
+          changes: [
+            {
+              field: 'messages',
+              value: {
+                messaging_product: 'whatsapp',
+                metadata: { display_phone_number: '15550001234', phone_number_id: 'PID' },
+                statuses: [
+                  {
+                    id: 'wamid.p1',
+                    recipient_id: '521',
+                    timestamp: '1700000000',
+                    type: 'payment',
+                    status: 'captured',
+                    payment: {
+                      reference_id: 'order-42',
+                      amount: { value: 119000, offset: 100 },
+                      currency: 'INR',
+                      transaction: { id: 'txn_1', type: 'upi', status: 'success', method: { type: 'upi' } },
+                    },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    const rawBody = JSON.stringify(payload);
+    client.handleWebhook({ rawBody, signature: sign(rawBody, APP_SECRET), body: payload });
+
+    expect(statuses).toHaveLength(0);
+    expect(payments).toHaveLength(1);
+    expect(captured).toHaveLength(1);
+    expect(payments[0]).toMatchObject({
+      id: 'wamid.p1',
+      status: 'captured',
+      referenceId: 'order-42',
+      amount: { value: 119000, offset: 100 },
+      currency: 'INR',
+      transaction: { id: 'txn_1', type: 'upi', status: 'success', methodType: 'upi' },
+      phoneNumberId: 'PID',
+    });
+  });
+
+  it('emits account events by type and limit changes as account:limit', () => {
+    const client = new WhatsAppClient({ accessToken: 'token', phoneNumberId: 'phone' });
+
+    const all: AccountEvent[] = [];
+    const quality: PhoneNumberQualityUpdate[] = [];
+    const limits: PhoneNumberQualityUpdate[] = [];
+    client.on('account', (e) => all.push(e));
+    client.on('account:quality', (e) => quality.push(e));
+    client.on('account:limit', (e) => limits.push(e));
+
+    const change = (event: string) => ({
+      field: 'phone_number_quality_update',
+      value: { display_phone_number: '15550001234', event, current_limit: 'TIER_10K' } as unknown as WebhookChangeValue,
+    });
+    const payload: WebhookPayload = {
+      object: 'whatsapp_business_account',
+      entry: [{ id: 'WABA', time: 1700000000, changes: [change('FLAGGED'), change('UPGRADE')] }],
+    };
+    client.handleWebhook({ rawBody: JSON.stringify(payload), body: payload });
+
+    expect(all).toHaveLength(2);
+    expect(quality.map((e) => e.event)).toEqual(['FLAGGED', 'UPGRADE']);
+    expect(limits).toEqual([expect.objectContaining({ event: 'UPGRADE', currentLimit: 'TIER_10K', wabaId: 'WABA' })]);
+  });
+
+  it('emits template events by type', () => {
+    const client = new WhatsAppClient({ accessToken: 'token', phoneNumberId: 'phone' });
+    const all: TemplateEvent[] = [];
+    const statuses: TemplateEvent[] = [];
+    client.on('template', (e) => all.push(e));
+    client.on('template:status', (e) => statuses.push(e));
+
+    client.handleWebhook({ rawBody: JSON.stringify(TEMPLATE_PAYLOAD), body: TEMPLATE_PAYLOAD });
+
+    expect(all.map((e) => e.type)).toEqual(['status', 'category']);
+    expect(statuses).toEqual([expect.objectContaining({ event: 'REJECTED', reason: 'INCORRECT_CATEGORY' })]);
+  });
+
   it('throws on invalid signature', () => {
     const client = new WhatsAppClient({
       accessToken: 'token',
@@ -170,3 +314,139 @@ describe('WhatsAppClient.handleWebhook', () => {
     ).not.toThrow();
   });
 });
+
+describe('createExpressMiddleware', () => {
+  it('delivers template events to onTemplateEvent', async () => {
+    const events: TemplateEvent[] = [];
+    const middleware = createExpressMiddleware({ appSecret: APP_SECRET, onTemplateEvent: (e) => void events.push(e) });
+    const rawBody = JSON.stringify(TEMPLATE_PAYLOAD);
+    let status = 0;
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      send() {},
+    };
+
+    middleware({ method: 'POST', headers: { 'x-hub-signature-256': sign(rawBody, APP_SECRET) }, body: rawBody }, res);
+    await Promise.resolve();
+
+    expect(status).toBe(200);
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'status', templateName: 'order_update' }),
+      expect.objectContaining({ type: 'category', previousCategory: 'UTILITY', newCategory: 'MARKETING' }),
+    ]);
+  });
+});
+
+describe('WhatsAppClient autoRead', () => {
+  const originalFetch = globalThis.fetch;
+  let sent: Array<Record<string, unknown>> = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sent = [];
+    globalThis.fetch = jest.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      sent.push(JSON.parse(String(init?.body ?? '{}')));
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ success: true, messages: [{ id: 'wamid.reply' }] }),
+      } as Response;
+    });
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const payload: WebhookPayload = {
+    object: 'whatsapp_business_account',
+    entry: [
+      {
+        id: '123',
+        changes: [
+          {
+            field: 'messages',
+            value: {
+              messaging_product: 'whatsapp',
+              metadata: { display_phone_number: '15550001234', phone_number_id: 'PID' },
+              messages: [{ from: '5215500000000', id: 'wamid.in', timestamp: '1700000000', type: 'text', text: { body: 'hi' } }],
+            },
+          },
+        ],
+      },
+    ],
+  };
+  const typing = {
+    messaging_product: 'whatsapp',
+    status: 'read',
+    message_id: 'wamid.in',
+    typing_indicator: { type: 'text' },
+  };
+
+  it('marks messages as read without typing when listeners are synchronous', async () => {
+    const client = new WhatsAppClient({ accessToken: 'token', phoneNumberId: 'phone', autoRead: true });
+    const seen: InboundMessage[] = [];
+    client.on('message:text', (m) => {
+      seen.push(m);
+    });
+    client.handleWebhook({ rawBody: JSON.stringify(payload), body: payload });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(seen).toHaveLength(1);
+    expect(sent).toEqual([{ messaging_product: 'whatsapp', status: 'read', message_id: 'wamid.in' }]);
+  });
+
+  it('refreshes the typing indicator until the async listener settles', async () => {
+    const client = new WhatsAppClient({
+      accessToken: 'token',
+      phoneNumberId: 'phone',
+      autoRead: { typingRefreshMs: 1_000 },
+    });
+    let finish!: () => void;
+    client.on('message', () => new Promise<void>((resolve) => (finish = resolve)));
+    client.handleWebhook({ rawBody: JSON.stringify(payload), body: payload });
+
+    await jest.advanceTimersByTimeAsync(2_500);
+    expect(sent).toEqual([typing, typing, typing]);
+
+    finish();
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(sent).toHaveLength(3);
+  });
+
+  it('stops refreshing once a reply is sent to the user', async () => {
+    const client = new WhatsAppClient({
+      accessToken: 'token',
+      phoneNumberId: 'phone',
+      autoRead: { typingRefreshMs: 1_000 },
+    });
+    client.once('message', async (msg) => {
+      await new Promise((resolve) => setTimeout(resolve, 1_500));
+      await client.sendText(`+${msg.from}`, 'done thinking');
+      await new Promise((resolve) => setTimeout(resolve, 10_000));
+    });
+    client.handleWebhook({ rawBody: JSON.stringify(payload), body: payload });
+
+    await jest.advanceTimersByTimeAsync(20_000);
+    expect(sent.filter((b) => b.typing_indicator)).toHaveLength(2);
+    expect(sent.filter((b) => b.type === 'text')).toHaveLength(1);
+  });
+
+  it('reports async listener failures as error events', async () => {
+    const client = new WhatsAppClient({ accessToken: 'token', phoneNumberId: 'phone', autoRead: true });
+    const errors: Error[] = [];
+    client.on('error', (err) => errors.push(err));
+    client.on('message', async () => {
+      throw new Error('listener failed');
+    });
+    client.handleWebhook({ rawBody: JSON.stringify(payload), body: payload });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(errors.map((e) => e.message)).toEqual(['listener failed']);
+  });
+});